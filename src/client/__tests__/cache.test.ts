@@ -1,4 +1,9 @@
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
 import { ApiCache } from '../cache';
+import { MemoryCacheStore } from '../cacheStore';
+import { FileCacheStore } from '../fileCacheStore';
 import { RateLimiter } from '../rateLimiter';
 import { MetricsCollector } from '../metrics';
 
@@ -10,82 +15,82 @@ describe('ApiCache', () => {
     });
 
     describe('Basic operations', () => {
-        it('should store and retrieve data', () => {
+        it('should store and retrieve data', async () => {
             const data = { test: 'value' };
-            cache.set('key1', data);
+            await cache.set('key1', data);
 
-            const retrieved = cache.get('key1');
+            const retrieved = await cache.get('key1');
             expect(retrieved).toEqual(data);
         });
 
-        it('should return null for non-existent keys', () => {
-            const result = cache.get('nonexistent');
+        it('should return null for non-existent keys', async () => {
+            const result = await cache.get('nonexistent');
             expect(result).toBeNull();
         });
 
         it('should respect TTL and expire entries', async () => {
-            cache.set('key1', 'value', 100); // 100ms TTL
+            await cache.set('key1', 'value', 100); // 100ms TTL
 
-            expect(cache.get('key1')).toBe('value');
+            expect(await cache.get('key1')).toBe('value');
 
             // Wait for expiration
             await new Promise(resolve => setTimeout(resolve, 150));
 
-            expect(cache.get('key1')).toBeNull();
+            expect(await cache.get('key1')).toBeNull();
         });
 
-        it('should use default TTL when not specified', () => {
-            cache.set('key1', 'value');
+        it('should use default TTL when not specified', async () => {
+            await cache.set('key1', 'value');
 
             // Should still be available immediately
-            expect(cache.get('key1')).toBe('value');
+            expect(await cache.get('key1')).toBe('value');
         });
 
-        it('should delete entries', () => {
-            cache.set('key1', 'value');
-            expect(cache.get('key1')).toBe('value');
+        it('should delete entries', async () => {
+            await cache.set('key1', 'value');
+            expect(await cache.get('key1')).toBe('value');
 
-            const deleted = cache.delete('key1');
+            const deleted = await cache.delete('key1');
             expect(deleted).toBe(true);
-            expect(cache.get('key1')).toBeNull();
+            expect(await cache.get('key1')).toBeNull();
         });
 
-        it('should clear all entries', () => {
-            cache.set('key1', 'value1');
-            cache.set('key2', 'value2');
+        it('should clear all entries', async () => {
+            await cache.set('key1', 'value1');
+            await cache.set('key2', 'value2');
 
-            cache.clear();
+            await cache.clear();
 
-            expect(cache.get('key1')).toBeNull();
-            expect(cache.get('key2')).toBeNull();
+            expect(await cache.get('key1')).toBeNull();
+            expect(await cache.get('key2')).toBeNull();
         });
     });
 
     describe('Statistics', () => {
-        it('should track cache hits and misses', () => {
-            cache.set('key1', 'value');
+        it('should track cache hits and misses', async () => {
+            await cache.set('key1', 'value');
 
             // Hit
-            cache.get('key1');
+            await cache.get('key1');
 
             // Miss
-            cache.get('nonexistent');
+            await cache.get('nonexistent');
 
-            const stats = cache.getStats();
+            const stats = await cache.getStats();
             expect(stats.hits).toBe(1);
             expect(stats.misses).toBe(1);
             expect(stats.hitRate).toBe(0.5);
             expect(stats.size).toBe(1);
         });
 
-        it('should reset stats when cleared', () => {
-            cache.set('key1', 'value');
-            cache.get('key1');
-            cache.get('nonexistent');
+        it('should reset stats when cleared', async () => {
+            await cache.set('key1', 'value');
+            await cache.get('key1');
+            await cache.get('nonexistent');
 
-            cache.clear();
+            await cache.clear();
 
-            const stats = cache.getStats();
+            const stats = await cache.getStats();
             expect(stats.hits).toBe(0);
             expect(stats.misses).toBe(0);
             expect(stats.hitRate).toBe(0);
@@ -93,23 +98,162 @@ describe('ApiCache', () => {
         });
     });
 
+    describe('Invalidation', () => {
+        beforeEach(async () => {
+            await cache.set('/docs?limit=10', 'docs');
+            await cache.set('/docs/doc1', 'doc1');
+            await cache.set('/docs/doc1/tables/t1', 'table1');
+            await cache.set('/docs/doc1/tables/t1/rows?limit=10', 'rows1');
+            await cache.set('/docs/doc1/tables/t1/rows/r1', 'row1');
+            await cache.set('/docs/doc1/tables/t10/rows', 'rows10');
+        });
+
+        it('should remove entries under a path prefix', async () => {
+            const removed = await cache.invalidatePrefix('/docs/doc1/tables/t1');
+
+            expect(removed).toBe(3);
+            expect(await cache.get('/docs/doc1/tables/t1')).toBeNull();
+            expect(await cache.get('/docs/doc1/tables/t1/rows/r1')).toBeNull();
+            expect(await cache.get('/docs/doc1/tables/t10/rows')).toBe('rows10');
+            expect(await cache.get('/docs/doc1')).toBe('doc1');
+        });
+
+        it('should remove an exact path with any query string', async () => {
+            const removed = await cache.invalidatePath('/docs');
+
+            expect(removed).toBe(1);
+            expect(await cache.get('/docs?limit=10')).toBeNull();
+            expect(await cache.get('/docs/doc1')).toBe('doc1');
+        });
+
+        it('should apply combined invalidation rules', async () => {
+            const removed = await cache.invalidate({
+                prefixes: ['/docs/doc1/tables/t1/rows'],
+                paths: ['/docs']
+            });
+
+            expect(removed).toBe(3);
+            expect(await cache.get('/docs/doc1/tables/t1')).toBe('table1');
+        });
+    });
+
     describe('Cleanup', () => {
         it('should remove expired entries during cleanup', async () => {
-            cache.set('key1', 'value1', 50);
-            cache.set('key2', 'value2', 200);
+            await cache.set('key1', 'value1', 50);
+            await cache.set('key2', 'value2', 200);
 
             // Wait for first key to expire
             await new Promise(resolve => setTimeout(resolve, 100));
 
-            cache.cleanup();
+            await cache.cleanup();
 
-            expect(cache.get('key1')).toBeNull();
-            expect(cache.get('key2')).toBe('value2');
-            expect(cache.getStats().size).toBe(1);
+            expect(await cache.get('key1')).toBeNull();
+            expect(await cache.get('key2')).toBe('value2');
+            expect((await cache.getStats()).size).toBe(1);
         });
     });
 });
 
+describe('MemoryCacheStore', () => {
+    const entry = (data: any) => ({ data, timestamp: Date.now(), ttl: 1000 });
+
+    it('should evict the least recently used entry when full', () => {
+        const store = new MemoryCacheStore({ maxEntries: 2 });
+        store.set('a', entry(1));
+        store.set('b', entry(2));
+
+        // Touch "a" so that "b" becomes the oldest entry
+        store.get('a');
+        store.set('c', entry(3));
+
+        expect(store.keys()).toEqual(['a', 'c']);
+        expect(store.evictions).toBe(1);
+    });
+
+    it('should evict entries beyond the byte limit', () => {
+        const store = new MemoryCacheStore({ maxBytes: 20 });
+        store.set('a', entry('0123456789'));
+        store.set('b', entry('0123456789'));
+
+        expect(store.keys()).toEqual(['b']);
+        expect(store.getByteSize()).toBe(12);
+        expect(store.evictions).toBe(1);
+    });
+
+    it('should report evictions through ApiCache stats', async () => {
+        const cache = new ApiCache(1000, new MemoryCacheStore({ maxEntries: 1 }));
+        await cache.set('a', 1);
+        await cache.set('b', 2);
+
+        const stats = await cache.getStats();
+        expect(stats.size).toBe(1);
+        expect(stats.evictions).toBe(1);
+    });
+
+    it('should keep namespaces apart in a shared store', async () => {
+        const store = new MemoryCacheStore();
+        const first = new ApiCache(1000, store, 'token-a');
+        const second = new ApiCache(1000, store, 'token-b');
+
+        await first.set('/docs/doc1/tables', { items: ['a'] });
+        await second.set('/docs/doc1/tables', { items: ['b'] });
+
+        expect(await first.get('/docs/doc1/tables')).toEqual({ items: ['a'] });
+        expect(await first.invalidatePrefix('/docs/doc1')).toBe(1);
+        expect(await second.get('/docs/doc1/tables')).toEqual({ items: ['b'] });
+
+        await second.clear();
+        expect(store.size()).toBe(0);
+    });
+});
+
+describe('FileCacheStore', () => {
+    let dir: string;
+
+    beforeEach(async () => {
+        dir = await fs.mkdtemp(path.join(os.tmpdir(), 'coda-cache-'));
+    });
+
+    afterEach(async () => {
+        await fs.rm(dir, { recursive: true, force: true });
+    });
+
+    it('should persist entries between instances', async () => {
+        const filePath = path.join(dir, 'cache.json');
+
+        await new ApiCache(1000, new FileCacheStore(filePath)).set('/docs', { items: [] });
+
+        const cache = new ApiCache(1000, new FileCacheStore(filePath));
+        expect(await cache.get('/docs')).toEqual({ items: [] });
+    });
+
+    it('should start empty when the file is corrupted', async () => {
+        const filePath = path.join(dir, 'cache.json');
+        await fs.writeFile(filePath, '{not json', 'utf8');
+
+        const store = new FileCacheStore(filePath);
+        expect(await store.size()).toBe(0);
+    });
+
+    it('should rewrite the file once when invalidating several entries', async () => {
+        const filePath = path.join(dir, 'cache.json');
+        const cache = new ApiCache(1000, new FileCacheStore(filePath));
+        await cache.set('/docs/doc1/tables/t1/rows', { items: [] });
+        await cache.set('/docs/doc1/tables/t1/rows?limit=10', { items: [] });
+        await cache.set('/docs/doc1/tables/t1', { id: 't1' });
+
+        const writeFile = jest.spyOn(fs, 'writeFile');
+        try {
+            expect(await cache.invalidatePrefix('/docs/doc1/tables/t1')).toBe(3);
+            expect(writeFile).toHaveBeenCalledTimes(1);
+        } finally {
+            writeFile.mockRestore();
+        }
+
+        expect(await new FileCacheStore(filePath).size()).toBe(0);
+    });
+});
+
 describe('RateLimiter', () => {
     let rateLimiter: RateLimiter;
 
@@ -170,6 +314,27 @@ describe('RateLimiter', () => {
             expect(Date.now() - startTime).toBeGreaterThanOrEqual(6000);
         });
 
+        it('should keep concurrent writes within the window', async () => {
+            const start = Date.now();
+            const grantedAt: number[] = [];
+
+            const promises = Array.from({ length: 25 }, () =>
+                rateLimiter.waitForSlot('write').then(() => grantedAt.push(Date.now() - start))
+            );
+
+            await jest.advanceTimersByTimeAsync(6000);
+            expect(grantedAt).toHaveLength(20);
+            expect(rateLimiter.getStats().writeRequests).toBe(10);
+
+            await jest.advanceTimersByTimeAsync(6000);
+            await Promise.all(promises);
+
+            expect(grantedAt.filter(time => time < 6000)).toHaveLength(10);
+            expect(grantedAt.filter(time => time >= 6000 && time < 12000)).toHaveLength(10);
+            expect(grantedAt.filter(time => time >= 12000)).toHaveLength(5);
+            expect(rateLimiter.getStats().writeRequests).toBe(5);
+        });
+
         it('should track separate limits for read and write', async () => {
             // Fill read quota
             const readPromises = [];
@@ -325,7 +490,7 @@ describe('MetricsCollector', () => {
             metrics.recordRequest(120, true, true); // cache hit
 
             const detailedStats = metrics.getDetailedStats();
-            expect(detailedStats.successRate).toBeCloseTo(0.5); // 2 successes out of 4 total
+            expect(detailedStats.successRate).toBeCloseTo(0.75); // 2 successes and 1 cache hit out of 4 total
             expect(detailedStats.errorRate).toBeCloseTo(0.25); // 1 failure out of 4 total
             expect(detailedStats.cacheHitRate).toBeCloseTo(0.25); // 1 cache hit out of 4 total
         });
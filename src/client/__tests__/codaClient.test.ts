@@ -1,13 +1,19 @@
 import { CodaClient } from '../codaClient';
-import { CodaApiError, CodaRateLimitError } from '../../types';
-import { LogLevel } from '../../utils';
+import { CodaAbortError, CodaApiError, CodaInvalidLinkError, CodaRateLimitError, CodaTimeoutError, CodaValidationError } from '../../types';
+import { LogLevel, MonitoringUtils } from '../../utils';
 
-import fetch from 'node-fetch';
+import { CodaTransport } from '../transport';
+import { MemoryCacheStore } from '../cacheStore';
 import { jest } from '@jest/globals';
 
-jest.mock('node-fetch');
+const mockFetch = jest.fn<CodaTransport>();
 
-const mockFetch = fetch as jest.MockedFunction<typeof fetch>;
+const jsonResponse = (data: any, status: number = 200) => ({
+    ok: status < 400,
+    status,
+    headers: { get: () => 'application/json' },
+    json: async () => data
+} as any);
 
 describe('CodaClient', () => {
     beforeEach(() => {
@@ -27,7 +33,7 @@ describe('CodaClient', () => {
             delete process.env.CODA_TOKEN;
 
             expect(() => new CodaClient()).toThrow(CodaApiError);
-            expect(() => new CodaClient()).toThrow('Token API Coda requis');
+            expect(() => new CodaClient()).toThrow('Token API Coda is required');
         });
 
         it('should accept token in config parameter', () => {
@@ -48,6 +54,7 @@ describe('CodaClient', () => {
         it('should initialize with custom configuration', () => {
             const client = new CodaClient({
                 apiToken: 'test_token_1234567890abcdef',
+                transport: mockFetch,
                 baseUrl: 'https://custom.api.url',
                 timeout: 5000,
                 retries: 1,
@@ -66,6 +73,7 @@ describe('CodaClient', () => {
         beforeEach(() => {
             client = new CodaClient({
                 apiToken: 'test_token_1234567890abcdef',
+                transport: mockFetch,
                 enableCache: false,
                 enableRateLimit: false,
                 logLevel: LogLevel.NONE
@@ -200,6 +208,7 @@ describe('CodaClient', () => {
         beforeEach(() => {
             client = new CodaClient({
                 apiToken: 'test_token_1234567890abcdef',
+                transport: mockFetch,
                 enableCache: false,
                 enableRateLimit: false,
                 logLevel: LogLevel.NONE,
@@ -208,7 +217,7 @@ describe('CodaClient', () => {
         });
 
         it('should handle 401 unauthorized error', async () => {
-            mockFetch.mockResolvedValueOnce({
+            mockFetch.mockResolvedValue({
                 ok: false,
                 status: 401,
                 statusText: 'Unauthorized',
@@ -263,6 +272,7 @@ describe('CodaClient', () => {
         beforeEach(() => {
             client = new CodaClient({
                 apiToken: 'test_token_1234567890abcdef',
+                transport: mockFetch,
                 enableCache: false,
                 enableRateLimit: false,
                 logLevel: LogLevel.NONE
@@ -351,10 +361,800 @@ describe('CodaClient', () => {
         });
     });
 
+    describe('Cancellation', () => {
+        let client: CodaClient;
+
+        beforeEach(() => {
+            client = new CodaClient({
+                apiToken: 'test_token_1234567890abcdef',
+                transport: mockFetch,
+                enableCache: false,
+                logLevel: LogLevel.NONE
+            });
+        });
+
+        it('should not send a request when the signal is already aborted', async () => {
+            const controller = new AbortController();
+            controller.abort();
+
+            await expect(client.listRows('doc1', 'table1', {}, { signal: controller.signal }))
+                .rejects.toThrow(CodaAbortError);
+            expect(mockFetch).not.toHaveBeenCalled();
+        });
+
+        it('should raise a CodaAbortError without retrying when fetch is aborted', async () => {
+            const controller = new AbortController();
+            mockFetch.mockRejectedValueOnce(Object.assign(new Error('The user aborted a request.'), { name: 'AbortError' }));
+
+            await expect(client.whoAmI({ signal: controller.signal })).rejects.toThrow(CodaAbortError);
+            expect(mockFetch).toHaveBeenCalledTimes(1);
+        });
+
+        it('should raise a CodaTimeoutError when an attempt exceeds its timeout', async () => {
+            client = new CodaClient({
+                apiToken: 'test_token_1234567890abcdef',
+                transport: mockFetch,
+                enableCache: false,
+                logLevel: LogLevel.NONE,
+                retries: 0
+            });
+            mockFetch.mockImplementationOnce((_url, init) => new Promise((_resolve, reject) => {
+                init.signal?.addEventListener('abort', () => reject(Object.assign(new Error('aborted'), { name: 'AbortError' })));
+            }));
+
+            await expect(client.listDocs(undefined, { timeout: 20 })).rejects.toThrow(CodaTimeoutError);
+        });
+
+        it('should stop polling a mutation as soon as the signal is aborted', async () => {
+            const controller = new AbortController();
+            mockFetch.mockResolvedValue({
+                ok: true,
+                status: 200,
+                headers: { get: () => 'application/json' },
+                json: async () => ({ id: 'req123', status: 'inProgress' })
+            } as any);
+
+            const promise = client.waitForMutation('req123', { pollInterval: 5000 }, { signal: controller.signal });
+            setTimeout(() => controller.abort(), 20);
+
+            await expect(promise).rejects.toThrow(CodaAbortError);
+            expect(mockFetch).toHaveBeenCalledTimes(1);
+        });
+    });
+
+    describe('Middlewares', () => {
+        let client: CodaClient;
+
+        beforeEach(() => {
+            client = new CodaClient({
+                apiToken: 'test_token_1234567890abcdef',
+                transport: mockFetch,
+                enableCache: false,
+                logLevel: LogLevel.NONE,
+                retries: 0
+            });
+        });
+
+        it('should let middlewares rewrite headers and URL', async () => {
+            client
+                .use(async (context, next) => {
+                    context.headers['X-Correlation-Id'] = 'abc-123';
+                    return next();
+                })
+                .use(async (context, next) => {
+                    context.baseUrl = 'https://proxy.internal/coda';
+                    return next();
+                });
+
+            mockFetch.mockResolvedValueOnce(jsonResponse({ name: 'Test User' }));
+
+            await client.whoAmI();
+
+            expect(mockFetch).toHaveBeenCalledWith(
+                'https://proxy.internal/coda/whoami',
+                expect.objectContaining({
+                    headers: expect.objectContaining({ 'X-Correlation-Id': 'abc-123' })
+                })
+            );
+        });
+
+        it('should short-circuit the request with a middleware response', async () => {
+            client.use(async (context, next) => context.endpoint === '/whoami' ? { name: 'Stub' } : next());
+
+            const result = await client.whoAmI();
+
+            expect(result).toEqual({ name: 'Stub' });
+            expect(mockFetch).not.toHaveBeenCalled();
+        });
+
+        it('should let middlewares observe results, errors and attempts', async () => {
+            const seen: string[] = [];
+            client = new CodaClient({
+                apiToken: 'test_token_1234567890abcdef',
+                transport: mockFetch,
+                enableCache: false,
+                logLevel: LogLevel.NONE,
+                retryPolicy: { maxRetries: 1, baseDelay: 1, jitter: false }
+            });
+            client.use(async (context, next) => {
+                try {
+                    const result = await next();
+                    seen.push(`${context.attempt}:ok`);
+                    return result;
+                } catch (error) {
+                    seen.push(`${context.attempt}:${(error as Error).message}`);
+                    throw error;
+                }
+            });
+
+            mockFetch
+                .mockRejectedValueOnce(new Error('Network error'))
+                .mockResolvedValueOnce(jsonResponse({ name: 'Test User' }));
+
+            await client.whoAmI();
+
+            expect(seen).toEqual(['0:Network error', '1:ok']);
+        });
+    });
+
+    describe('Transport', () => {
+        it('should default to the global fetch when available', async () => {
+            const globalFetch = jest.spyOn(globalThis, 'fetch').mockResolvedValueOnce({
+                ok: true,
+                status: 200,
+                headers: { get: () => 'application/json' },
+                json: async () => ({ name: 'Test User' })
+            } as any);
+
+            const client = new CodaClient({
+                apiToken: 'test_token_1234567890abcdef',
+                logLevel: LogLevel.NONE
+            });
+
+            await expect(client.whoAmI()).resolves.toEqual({ name: 'Test User' });
+            expect(globalFetch).toHaveBeenCalledWith(expect.stringContaining('/whoami'), expect.any(Object));
+            globalFetch.mockRestore();
+        });
+    });
+
+    describe('Pages', () => {
+        let client: CodaClient;
+
+        beforeEach(() => {
+            client = new CodaClient({
+                apiToken: 'test_token_1234567890abcdef',
+                transport: mockFetch,
+                logLevel: LogLevel.NONE
+            });
+        });
+
+        it('should create a page with its canvas content', async () => {
+            mockFetch.mockResolvedValueOnce(jsonResponse({ requestId: 'req123', id: 'canvas-1' }, 202));
+
+            const page = {
+                name: 'Meeting notes',
+                parentPageId: 'canvas-root',
+                iconName: 'notes',
+                pageContent: {
+                    type: 'canvas' as const,
+                    canvasContent: { format: 'markdown' as const, content: '# Notes' }
+                }
+            };
+            const result = await client.createPage('doc1', page);
+
+            expect(result).toEqual({ requestId: 'req123', id: 'canvas-1' });
+            expect(mockFetch).toHaveBeenCalledWith(
+                expect.stringContaining('/docs/doc1/pages'),
+                expect.objectContaining({ method: 'POST', body: JSON.stringify(page) })
+            );
+        });
+
+        it('should refresh cached pages after an update', async () => {
+            mockFetch
+                .mockResolvedValueOnce(jsonResponse({ id: 'canvas-1', name: 'Old' }))
+                .mockResolvedValueOnce(jsonResponse({ requestId: 'req123', id: 'canvas-1' }, 202))
+                .mockResolvedValueOnce(jsonResponse({ id: 'canvas-1', name: 'New' }));
+
+            await client.getPage('doc1', 'canvas-1');
+            await client.updatePage('doc1', 'canvas-1', { name: 'New' });
+            const page = await client.getPage('doc1', 'canvas-1');
+
+            expect(page.name).toBe('New');
+            expect(mockFetch).toHaveBeenNthCalledWith(
+                2,
+                expect.stringContaining('/docs/doc1/pages/canvas-1'),
+                expect.objectContaining({ method: 'PUT' })
+            );
+        });
+
+        it('should export a page once the export is complete', async () => {
+            mockFetch
+                .mockResolvedValueOnce(jsonResponse({ id: 'exp1', status: 'inProgress', href: '' }, 202))
+                .mockResolvedValueOnce(jsonResponse({ id: 'exp1', status: 'inProgress', href: '' }))
+                .mockResolvedValueOnce(jsonResponse({
+                    id: 'exp1',
+                    status: 'complete',
+                    href: '',
+                    downloadLink: 'https://storage.example.com/exp1.md'
+                }))
+                .mockResolvedValueOnce({ ok: true, status: 200, text: async () => '# Notes' } as any);
+
+            const content = await client.exportPage('doc1', 'canvas-1', { format: 'markdown', pollInterval: 10 });
+
+            expect(content).toBe('# Notes');
+            expect(mockFetch).toHaveBeenNthCalledWith(
+                1,
+                expect.stringContaining('/docs/doc1/pages/canvas-1/export'),
+                expect.objectContaining({ method: 'POST', body: JSON.stringify({ outputFormat: 'markdown' }) })
+            );
+            expect(mockFetch).toHaveBeenNthCalledWith(
+                4,
+                'https://storage.example.com/exp1.md',
+                expect.objectContaining({ headers: expect.not.objectContaining({ Authorization: expect.anything() }) })
+            );
+        });
+
+        it('should time out a stalled download', async () => {
+            mockFetch
+                .mockResolvedValueOnce(jsonResponse({ id: 'exp1', status: 'inProgress', href: '' }, 202))
+                .mockResolvedValueOnce(jsonResponse({
+                    id: 'exp1',
+                    status: 'complete',
+                    href: '',
+                    downloadLink: 'https://storage.example.com/exp1.md'
+                }))
+                .mockImplementationOnce((_url, init) => new Promise((_resolve, reject) => {
+                    init.signal?.addEventListener('abort', () => reject(Object.assign(new Error('aborted'), { name: 'AbortError' })));
+                }));
+
+            await expect(client.exportPage('doc1', 'canvas-1', { format: 'markdown' }, { timeout: 20 }))
+                .rejects.toThrow(CodaTimeoutError);
+        });
+
+        it('should raise an error when the export fails', async () => {
+            mockFetch
+                .mockResolvedValueOnce(jsonResponse({ id: 'exp1', status: 'inProgress', href: '' }, 202))
+                .mockResolvedValueOnce(jsonResponse({ id: 'exp1', status: 'failed', href: '', error: 'Page too large' }));
+
+            await expect(client.exportPage('doc1', 'canvas-1', { format: 'html' }))
+                .rejects.toThrow('Page export failed: Page too large');
+        });
+
+        it('should delete a page', async () => {
+            mockFetch.mockResolvedValueOnce(jsonResponse({ requestId: 'req123', id: 'canvas-1' }, 202));
+
+            await client.deletePage('doc1', 'canvas-1');
+
+            expect(mockFetch).toHaveBeenCalledWith(
+                expect.stringContaining('/docs/doc1/pages/canvas-1'),
+                expect.objectContaining({ method: 'DELETE' })
+            );
+        });
+    });
+
+    describe('Formulas and controls', () => {
+        let client: CodaClient;
+
+        beforeEach(() => {
+            client = new CodaClient({
+                apiToken: 'test_token_1234567890abcdef',
+                transport: mockFetch,
+                enableCache: false,
+                logLevel: LogLevel.NONE
+            });
+        });
+
+        it('should resolve a formula value by name across pages', async () => {
+            mockFetch
+                .mockResolvedValueOnce(jsonResponse({
+                    items: [{ id: 'f-1', type: 'formula', href: '', name: 'Revenue' }],
+                    nextPageToken: 'token1'
+                }))
+                .mockResolvedValueOnce(jsonResponse({
+                    items: [{ id: 'f-2', type: 'formula', href: '', name: 'Churn' }]
+                }))
+                .mockResolvedValueOnce(jsonResponse({ id: 'f-2', type: 'formula', href: '', name: 'Churn', value: 0.05 }));
+
+            const value = await client.getFormulaValue<number>('doc1', 'Churn');
+
+            expect(value).toBe(0.05);
+            expect(mockFetch).toHaveBeenLastCalledWith(
+                expect.stringContaining('/docs/doc1/formulas/f-2'),
+                expect.any(Object)
+            );
+        });
+
+        it('should raise a 404 when the formula name is unknown', async () => {
+            mockFetch.mockResolvedValueOnce(jsonResponse({ items: [] }));
+
+            await expect(client.getFormulaValue('doc1', 'Missing')).rejects.toMatchObject({ statusCode: 404 });
+        });
+
+        it('should return a control with its type and value', async () => {
+            const control = { id: 'ctrl-1', type: 'control', href: '', name: 'Quarter', controlType: 'select', value: 'Q3' };
+            mockFetch.mockResolvedValueOnce(jsonResponse(control));
+
+            const result = await client.getControl('doc1', 'ctrl-1');
+
+            expect(result).toEqual(control);
+            expect(mockFetch).toHaveBeenCalledWith(
+                expect.stringContaining('/docs/doc1/controls/ctrl-1'),
+                expect.objectContaining({ method: 'GET' })
+            );
+        });
+    });
+
+    describe('Buttons', () => {
+        let client: CodaClient;
+
+        const column = (type: string) => ({
+            id: 'c-button',
+            type: 'column',
+            href: '',
+            name: 'Send email',
+            format: { type, isArray: false }
+        });
+
+        beforeEach(() => {
+            client = new CodaClient({
+                apiToken: 'test_token_1234567890abcdef',
+                transport: mockFetch,
+                enableCache: false,
+                logLevel: LogLevel.NONE
+            });
+        });
+
+        it('should push a button after checking the column type', async () => {
+            mockFetch
+                .mockResolvedValueOnce(jsonResponse(column('button')))
+                .mockResolvedValueOnce(jsonResponse({ requestId: 'req123', rowId: 'r1', columnId: 'c-button' }, 202));
+
+            const result = await client.pushButton('doc1', 'table1', 'r1', 'c-button');
+
+            expect(result.requestId).toBe('req123');
+            expect(mockFetch).toHaveBeenLastCalledWith(
+                expect.stringContaining('/docs/doc1/tables/table1/rows/r1/buttons/c-button'),
+                expect.objectContaining({ method: 'POST' })
+            );
+        });
+
+        it('should reject columns that are not buttons', async () => {
+            mockFetch.mockResolvedValueOnce(jsonResponse(column('text')));
+
+            await expect(client.pushButton('doc1', 'table1', 'r1', 'c-button')).rejects.toThrow(CodaValidationError);
+            expect(mockFetch).toHaveBeenCalledTimes(1);
+        });
+    });
+
+    describe('Permissions', () => {
+        let client: CodaClient;
+
+        beforeEach(() => {
+            client = new CodaClient({
+                apiToken: 'test_token_1234567890abcdef',
+                transport: mockFetch,
+                logLevel: LogLevel.NONE
+            });
+        });
+
+        it('should add a permission and refresh the cached list', async () => {
+            mockFetch
+                .mockResolvedValueOnce(jsonResponse({ items: [] }))
+                .mockResolvedValueOnce(jsonResponse({}))
+                .mockResolvedValueOnce(jsonResponse({ items: [{ id: 'p1' }] }));
+
+            await client.listPermissions('doc1');
+            await client.addPermission('doc1', { type: 'email', email: 'alice@example.com' }, 'write', { suppressEmail: true });
+            const permissions = await client.listPermissions('doc1');
+
+            expect(permissions.items).toHaveLength(1);
+            expect(mockFetch).toHaveBeenNthCalledWith(
+                2,
+                expect.stringContaining('/docs/doc1/acl/permissions'),
+                expect.objectContaining({
+                    method: 'POST',
+                    body: JSON.stringify({
+                        principal: { type: 'email', email: 'alice@example.com' },
+                        access: 'write',
+                        suppressEmail: true
+                    })
+                })
+            );
+        });
+
+        it('should search principals', async () => {
+            mockFetch.mockResolvedValueOnce(jsonResponse({ users: [], groups: [] }));
+
+            await client.searchPrincipals('doc1', 'ali');
+
+            expect(mockFetch).toHaveBeenCalledWith(
+                expect.stringContaining('/docs/doc1/acl/principals/search?query=ali'),
+                expect.any(Object)
+            );
+        });
+    });
+
+    describe('Publishing', () => {
+        let client: CodaClient;
+
+        beforeEach(() => {
+            client = new CodaClient({
+                apiToken: 'test_token_1234567890abcdef',
+                transport: mockFetch,
+                logLevel: LogLevel.NONE
+            });
+        });
+
+        it('should publish a document and refresh its cached metadata', async () => {
+            mockFetch
+                .mockResolvedValueOnce(jsonResponse({ id: 'doc1' }))
+                .mockResolvedValueOnce(jsonResponse({ requestId: 'req-1' }))
+                .mockResolvedValueOnce(jsonResponse({ id: 'doc1', published: { browserLink: 'https://coda.io/@acme/template' } }));
+
+            await client.getDoc('doc1');
+            const result = await client.publishDoc('doc1', { slug: 'template', discoverable: true, categoryNames: ['Marketing'] });
+            const doc = await client.getDoc('doc1');
+
+            expect(result.requestId).toBe('req-1');
+            expect(doc.published?.browserLink).toBe('https://coda.io/@acme/template');
+            expect(mockFetch).toHaveBeenNthCalledWith(
+                2,
+                expect.stringContaining('/docs/doc1/publish'),
+                expect.objectContaining({
+                    method: 'PUT',
+                    body: JSON.stringify({ slug: 'template', discoverable: true, categoryNames: ['Marketing'] })
+                })
+            );
+        });
+
+        it('should unpublish a document', async () => {
+            mockFetch.mockResolvedValueOnce(jsonResponse({ requestId: 'req-2' }));
+
+            const result = await client.unpublishDoc('doc1');
+
+            expect(result.requestId).toBe('req-2');
+            expect(mockFetch).toHaveBeenCalledWith(
+                expect.stringContaining('/docs/doc1/publish'),
+                expect.objectContaining({ method: 'DELETE' })
+            );
+        });
+    });
+
+    describe('Folders and workspaces', () => {
+        let client: CodaClient;
+
+        beforeEach(() => {
+            client = new CodaClient({
+                apiToken: 'test_token_1234567890abcdef',
+                transport: mockFetch,
+                logLevel: LogLevel.NONE
+            });
+        });
+
+        it('should update a document with PATCH', async () => {
+            mockFetch.mockResolvedValueOnce(jsonResponse({}));
+
+            await client.updateDoc('doc1', { title: 'Renamed', iconName: 'rocket' });
+
+            expect(mockFetch).toHaveBeenCalledWith(
+                expect.stringContaining('/docs/doc1'),
+                expect.objectContaining({
+                    method: 'PATCH',
+                    body: JSON.stringify({ title: 'Renamed', iconName: 'rocket' })
+                })
+            );
+        });
+
+        it('should list workspace members filtered by role', async () => {
+            mockFetch.mockResolvedValueOnce(jsonResponse({ items: [] }));
+
+            await client.listWorkspaceMembers('ws1', { includedRoles: ['Admin', 'DocMaker'] });
+
+            const url = new URL(mockFetch.mock.calls[0][0]);
+            expect(url.pathname).toMatch(/\/workspaces\/ws1\/users$/);
+            expect(url.searchParams.get('included_roles')).toBe('Admin,DocMaker');
+        });
+
+        it('should change the role of a member', async () => {
+            mockFetch.mockResolvedValueOnce(jsonResponse({ roleChangedAt: '2024-01-01T00:00:00Z' }));
+
+            const result = await client.changeUserRole('ws1', 'alice@example.com', 'Editor');
+
+            expect(result.roleChangedAt).toBe('2024-01-01T00:00:00Z');
+            expect(mockFetch).toHaveBeenCalledWith(
+                expect.stringContaining('/workspaces/ws1/users/role'),
+                expect.objectContaining({
+                    method: 'POST',
+                    body: JSON.stringify({ email: 'alice@example.com', newRole: 'Editor' })
+                })
+            );
+        });
+    });
+
+    describe('Browser links', () => {
+        let client: CodaClient;
+
+        beforeEach(() => {
+            client = new CodaClient({
+                apiToken: 'test_token_1234567890abcdef',
+                transport: mockFetch,
+                logLevel: LogLevel.NONE,
+                retries: 0
+            });
+        });
+
+        it('should extract the doc ID from a link', () => {
+            expect(client.getDocIdByUrl('https://coda.io/d/Roadmap_dAbC123/Goals_suXyz')).toBe('AbC123');
+            expect(() => client.getDocIdByUrl('https://coda.io/')).toThrow(CodaInvalidLinkError);
+        });
+
+        it('should resolve a link through the API', async () => {
+            mockFetch.mockResolvedValueOnce(jsonResponse({
+                type: 'apiLink',
+                href: 'https://coda.io/apis/v1/resolveBrowserLink',
+                browserLink: 'https://coda.io/d/_dAbC123#_tuGr1d/r1',
+                resource: { type: 'row', id: 'i-1', name: 'First', href: 'https://coda.io/apis/v1/docs/AbC123/tables/grid-1/rows/i-1' }
+            }));
+
+            const link = await client.resolveBrowserLink('https://coda.io/d/_dAbC123#_tuGr1d/r1');
+
+            expect(link).toMatchObject({ type: 'row', docId: 'AbC123', tableId: 'grid-1', rowId: 'i-1', name: 'First' });
+            expect(new URL(mockFetch.mock.calls[0][0]).searchParams.get('url')).toBe('https://coda.io/d/_dAbC123#_tuGr1d/r1');
+        });
+
+        it('should throw a typed error when the API rejects the link', async () => {
+            mockFetch.mockResolvedValueOnce(jsonResponse({ message: 'Not found' }, 404));
+
+            await expect(client.resolveBrowserLink('https://coda.io/d/_dMissing')).rejects.toThrow(CodaInvalidLinkError);
+        });
+    });
+
+    describe('Analytics', () => {
+        let client: CodaClient;
+
+        beforeEach(() => {
+            client = new CodaClient({
+                apiToken: 'test_token_1234567890abcdef',
+                transport: mockFetch,
+                logLevel: LogLevel.NONE
+            });
+        });
+
+        it('should send the date range formatted as YYYY-MM-DD', async () => {
+            mockFetch.mockResolvedValueOnce(jsonResponse({ items: [] }));
+
+            await client.listDocAnalytics({
+                sinceDate: new Date(Date.UTC(2024, 0, 1)),
+                untilDate: '2024-01-31',
+                docIds: ['doc1', 'doc2']
+            });
+
+            const url = new URL(mockFetch.mock.calls[0][0]);
+            expect(url.pathname).toMatch(/\/analytics\/docs$/);
+            expect(url.searchParams.get('sinceDate')).toBe('2024-01-01');
+            expect(url.searchParams.get('untilDate')).toBe('2024-01-31');
+            expect(url.searchParams.get('docIds')).toBe('doc1,doc2');
+        });
+
+        it('should reject invalid date ranges without calling the API', async () => {
+            await expect(client.getDocAnalyticsSummary({ sinceDate: '2024-02-30' })).rejects.toThrow(CodaValidationError);
+            await expect(client.listPageAnalytics('doc1', { sinceDate: '2024-03-01', untilDate: '2024-02-01' }))
+                .rejects.toMatchObject({ validationErrors: ['sinceDate (2024-03-01) must not be after untilDate (2024-02-01)'] });
+            await expect(client.listPackAnalytics({ untilDate: new Date('invalid') })).rejects.toThrow(CodaValidationError);
+
+            expect(mockFetch).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('Automations', () => {
+        let client: CodaClient;
+
+        beforeEach(() => {
+            client = new CodaClient({
+                apiToken: 'test_token_1234567890abcdef',
+                transport: mockFetch,
+                logLevel: LogLevel.NONE
+            });
+        });
+
+        it('should trigger an automation rule with its payload', async () => {
+            mockFetch.mockResolvedValueOnce(jsonResponse({ requestId: 'req-1' }, 202));
+
+            const result = await client.triggerAutomation('doc1', 'grid-auto-1', { orderId: 42 });
+
+            expect(result).toEqual({ requestId: 'req-1' });
+            expect(mockFetch).toHaveBeenCalledWith(
+                expect.stringContaining('/docs/doc1/hooks/automation/grid-auto-1'),
+                expect.objectContaining({ method: 'POST', body: JSON.stringify({ orderId: 42 }) })
+            );
+            expect((await client.getDetailedStats()).rateLimiter?.writeRequests).toBe(1);
+        });
+
+        it('should wait for the automation to complete when asked', async () => {
+            mockFetch
+                .mockResolvedValueOnce(jsonResponse({ requestId: 'req-1' }, 202))
+                .mockResolvedValueOnce(jsonResponse({ id: 'req-1', status: 'inProgress' }))
+                .mockResolvedValueOnce(jsonResponse({ id: 'req-1', status: 'complete' }));
+
+            const result = await client.triggerAutomation('doc1', 'grid-auto-1', {}, { waitForCompletion: true, pollInterval: 1 });
+
+            expect(result.status?.status).toBe('complete');
+            expect(mockFetch).toHaveBeenLastCalledWith(expect.stringContaining('/mutationStatus/req-1'), expect.any(Object));
+        });
+    });
+
+    describe('Views', () => {
+        let client: CodaClient;
+
+        beforeEach(() => {
+            client = new CodaClient({
+                apiToken: 'test_token_1234567890abcdef',
+                transport: mockFetch,
+                logLevel: LogLevel.NONE
+            });
+        });
+
+        it('should list only the views of a document', async () => {
+            mockFetch.mockResolvedValueOnce(jsonResponse({ items: [] }));
+
+            await client.listViews('doc1', { limit: 10 });
+
+            const url = new URL(mockFetch.mock.calls[0][0]);
+            expect(url.searchParams.get('tableTypes')).toBe('view');
+            expect(url.searchParams.get('limit')).toBe('10');
+        });
+
+        it('should reject a table passed as a view', async () => {
+            mockFetch.mockResolvedValueOnce(jsonResponse({ id: 'grid-1', name: 'Tasks', tableType: 'table' }));
+
+            await expect(client.getView('doc1', 'grid-1')).rejects.toThrow(CodaValidationError);
+        });
+
+        it('should refresh the parent table rows after a write through a view', async () => {
+            mockFetch
+                .mockResolvedValueOnce(jsonResponse({ items: [{ id: 'i-1' }] }))
+                .mockResolvedValueOnce(jsonResponse({ requestId: 'req-1' }))
+                .mockResolvedValueOnce(jsonResponse({ items: [] }));
+
+            await client.listRows('doc1', 'grid-1');
+            await client.deleteViewRow('doc1', 'table-view-1', 'i-1');
+            const rows = await client.listRows('doc1', 'grid-1');
+
+            expect(rows.items).toHaveLength(0);
+            expect(mockFetch).toHaveBeenNthCalledWith(
+                2,
+                expect.stringContaining('/docs/doc1/tables/table-view-1/rows/i-1'),
+                expect.objectContaining({ method: 'DELETE' })
+            );
+        });
+        it('should refresh the view rows after a write on the parent table', async () => {
+            mockFetch
+                .mockResolvedValueOnce(jsonResponse({ items: [{ id: 'i-1' }] }))
+                .mockResolvedValueOnce(jsonResponse({ requestId: 'req-1', addedRowIds: ['i-2'] }))
+                .mockResolvedValueOnce(jsonResponse({ items: [{ id: 'i-1' }, { id: 'i-2' }] }));
+
+            await client.listViewRows('doc1', 'table-view-1');
+            await client.insertRows('doc1', 'grid-1', [{ cells: [{ column: 'Name', value: 'New' }] }]);
+            const rows = await client.listViewRows('doc1', 'table-view-1');
+
+            expect(rows.items).toHaveLength(2);
+            expect(mockFetch).toHaveBeenCalledTimes(3);
+        });
+    });
+
+    describe('Schema', () => {
+        let client: CodaClient;
+
+        beforeEach(() => {
+            client = new CodaClient({
+                apiToken: 'test_token_1234567890abcdef',
+                transport: mockFetch,
+                logLevel: LogLevel.NONE
+            });
+        });
+
+        it('should build the schema from the table and every page of columns', async () => {
+            mockFetch
+                .mockResolvedValueOnce(jsonResponse({ id: 'grid-1', name: 'Tasks', displayColumn: { id: 'c-1' } }))
+                .mockResolvedValueOnce(jsonResponse({
+                    items: [{ id: 'c-1', name: 'Name', calculated: false, display: true, format: { type: 'text', isArray: false } }],
+                    nextPageToken: 'next'
+                }))
+                .mockResolvedValueOnce(jsonResponse({
+                    items: [{ id: 'c-2', name: 'Total', calculated: true, display: false, format: { type: 'number', isArray: false } }]
+                }));
+
+            const schema = await client.getTableSchema('doc1', 'grid-1');
+
+            expect(schema.displayColumnId).toBe('c-1');
+            expect(schema.columns.map(column => [column.name, column.type, column.calculated])).toEqual([
+                ['Name', 'text', false],
+                ['Total', 'number', true]
+            ]);
+            expect(schema.hash).toMatch(/^[0-9a-f]{64}$/);
+            expect(new URL(mockFetch.mock.calls[2][0]).searchParams.get('pageToken')).toBe('next');
+        });
+        it('should not read the schema from the cache', async () => {
+            const table = jsonResponse({ id: 'grid-1', name: 'Tasks', displayColumn: { id: 'c-1' } });
+            mockFetch
+                .mockResolvedValueOnce(jsonResponse({ items: [{ id: 'c-1', name: 'Name', format: { type: 'text', isArray: false } }] }))
+                .mockResolvedValueOnce(table)
+                .mockResolvedValueOnce(jsonResponse({ items: [{ id: 'c-1', name: 'Title', format: { type: 'text', isArray: false } }] }));
+
+            await client.listColumns('doc1', 'grid-1');
+            const schema = await client.getTableSchema('doc1', 'grid-1');
+
+            expect(mockFetch).toHaveBeenCalledTimes(3);
+            expect(schema.columns.map(column => column.name)).toEqual(['Title']);
+        });
+    });
+
+    describe('Write validation', () => {
+        const columns = {
+            items: [
+                { id: 'c-name', name: 'Name', calculated: false, display: true, format: { type: 'text', isArray: false } },
+                { id: 'c-status', name: 'Status', calculated: false, display: false, format: { type: 'select', isArray: false } }
+            ]
+        };
+
+        const createClient = (validateWrites?: boolean) => new CodaClient({
+            apiToken: 'test_token_1234567890abcdef',
+            transport: mockFetch,
+            logLevel: LogLevel.NONE,
+            validateWrites
+        });
+
+        it('should not validate writes by default', async () => {
+            mockFetch.mockResolvedValueOnce(jsonResponse({ requestId: 'req-1' }));
+
+            await createClient().insertRows('doc1', 'grid-1', [{ cells: [{ column: 'Unknown', value: 1 }] }]);
+
+            expect(mockFetch).toHaveBeenCalledTimes(1);
+        });
+
+        it('should reject invalid rows before writing when enabled on the client', async () => {
+            mockFetch
+                .mockResolvedValueOnce(jsonResponse({ id: 'grid-1', name: 'Tasks', displayColumn: { id: 'c-name' } }))
+                .mockResolvedValueOnce(jsonResponse(columns))
+                .mockResolvedValueOnce(jsonResponse({ items: [{ name: 'Todo' }, { name: 'Done' }] }));
+
+            const error = await createClient(true).insertRows('doc1', 'grid-1', [
+                { cells: [{ column: 'Name', value: 'Write docs' }, { column: 'Status', value: 'Todo' }] },
+                { cells: [{ column: 'Status', value: 'Blocked' }] }
+            ]).catch(err => err);
+
+            expect(error).toBeInstanceOf(CodaValidationError);
+            expect(error.cellErrors).toEqual([expect.objectContaining({ rowIndex: 1, column: 'Status' })]);
+            expect(mockFetch).toHaveBeenLastCalledWith(
+                expect.stringContaining('/docs/doc1/tables/grid-1/columns/c-status/selectOptions'),
+                expect.any(Object)
+            );
+            expect(mockFetch).toHaveBeenCalledTimes(3);
+        });
+
+        it('should let a call opt in or out of validation', async () => {
+            mockFetch
+                .mockResolvedValueOnce(jsonResponse({ requestId: 'req-1' }))
+                .mockResolvedValueOnce(jsonResponse({ id: 'grid-1', name: 'Tasks', displayColumn: { id: 'c-name' } }))
+                .mockResolvedValueOnce(jsonResponse(columns))
+                .mockResolvedValueOnce(jsonResponse({ requestId: 'req-2' }));
+
+            await createClient(true).updateRow('doc1', 'grid-1', 'i-1', { cells: [{ column: 'Other', value: 1 }] }, { validate: false });
+            await createClient().updateRow('doc1', 'grid-1', 'i-1', { cells: [{ column: 'Name', value: 'Renamed' }] }, { validate: true });
+
+            expect(mockFetch).toHaveBeenCalledTimes(4);
+            expect(mockFetch).toHaveBeenLastCalledWith(
+                expect.stringContaining('/docs/doc1/tables/grid-1/rows/i-1'),
+                expect.objectContaining({ body: JSON.stringify({ row: { cells: [{ column: 'Name', value: 'Renamed' }] } }) })
+            );
+        });
+    });
+
     describe('Stats and Metrics', () => {
         it('should return stats when metrics are enabled', async () => {
             const client = new CodaClient({
                 apiToken: 'test_token_1234567890abcdef',
+                transport: mockFetch,
                 enableMetrics: true
             });
 
@@ -366,6 +1166,7 @@ describe('CodaClient', () => {
         it('should return empty object when metrics are disabled', async () => {
             const client = new CodaClient({
                 apiToken: 'test_token_1234567890abcdef',
+                transport: mockFetch,
                 enableMetrics: false
             });
 
@@ -373,4 +1174,305 @@ describe('CodaClient', () => {
             expect(stats).toEqual({});
         });
     });
-});
\ No newline at end of file
+
+    describe('Request pipeline', () => {
+        it('should serve repeated GET requests from the cache', async () => {
+            const client = new CodaClient({
+                apiToken: 'test_token_1234567890abcdef',
+                transport: mockFetch,
+                logLevel: LogLevel.NONE
+            });
+
+            mockFetch.mockResolvedValueOnce(jsonResponse({ items: [] }));
+
+            await client.listDocs({ limit: 10 });
+            const result = await client.listDocs({ limit: 10 });
+
+            expect(result).toEqual({ items: [] });
+            expect(mockFetch).toHaveBeenCalledTimes(1);
+
+            const stats = await client.getDetailedStats();
+            expect(stats.metrics?.totalRequests).toBe(2);
+            expect(stats.metrics?.successfulRequests).toBe(1);
+            expect(stats.metrics?.cacheHits).toBe(1);
+            expect(stats.cache?.hits).toBe(1);
+            expect(stats.rateLimiter?.readRequests).toBe(1);
+        });
+
+        it('should count cache hits as successes in the health report', async () => {
+            const client = new CodaClient({
+                apiToken: 'test_token_1234567890abcdef',
+                transport: mockFetch,
+                logLevel: LogLevel.NONE
+            });
+
+            mockFetch.mockResolvedValueOnce(jsonResponse({ items: [] }));
+
+            for (let i = 0; i < 10; i++) {
+                await client.listDocs();
+            }
+
+            const stats = await client.getDetailedStats();
+            expect(mockFetch).toHaveBeenCalledTimes(1);
+            expect(stats.metrics?.successRate).toBe(1);
+            expect((await MonitoringUtils.generateHealthReport(client)).status).toBe('HEALTHY');
+        });
+
+        it('should not share cached responses between tokens', async () => {
+            const cacheStore = new MemoryCacheStore();
+            const createClient = (apiToken: string) => new CodaClient({ apiToken, transport: mockFetch, logLevel: LogLevel.NONE, cacheStore });
+
+            mockFetch
+                .mockResolvedValueOnce(jsonResponse({ items: [{ id: 'doc-a' }] }))
+                .mockResolvedValueOnce(jsonResponse({ items: [{ id: 'doc-b' }] }));
+
+            await createClient('test_token_1234567890abcdef').listDocs();
+            const docs = await createClient('other_token_1234567890abcdef').listDocs();
+
+            expect(docs.items).toEqual([{ id: 'doc-b' }]);
+            expect(mockFetch).toHaveBeenCalledTimes(2);
+        });
+
+        it('should not replay or reject a call when the cache store fails', async () => {
+            const failing = new MemoryCacheStore();
+            failing.set = () => { throw new Error('disk full'); };
+            failing.delete = () => { throw new Error('disk full'); };
+            failing.clear = () => { throw new Error('disk full'); };
+
+            const client = new CodaClient({
+                apiToken: 'test_token_1234567890abcdef',
+                transport: mockFetch,
+                logLevel: LogLevel.NONE,
+                cacheStore: failing
+            });
+
+            mockFetch
+                .mockResolvedValueOnce(jsonResponse({ items: [] }))
+                .mockResolvedValueOnce(jsonResponse({ requestId: 'req-1', id: 'i-1' }, 202));
+            failing.keys = () => { throw new Error('disk full'); };
+
+            await expect(client.listRows('doc1', 'grid-1')).resolves.toEqual({ items: [] });
+            await expect(client.deleteRow('doc1', 'grid-1', 'i-1')).resolves.toEqual({ requestId: 'req-1', id: 'i-1' });
+            expect(mockFetch).toHaveBeenCalledTimes(2);
+        });
+
+        it('should not cache mutation status polling', async () => {
+            const client = new CodaClient({
+                apiToken: 'test_token_1234567890abcdef',
+                transport: mockFetch,
+                logLevel: LogLevel.NONE
+            });
+
+            mockFetch
+                .mockResolvedValueOnce(jsonResponse({ id: 'req123', status: 'inProgress' }))
+                .mockResolvedValueOnce(jsonResponse({ id: 'req123', status: 'complete' }));
+
+            const result = await client.waitForMutation('req123', { pollInterval: 10 });
+
+            expect(result.status).toBe('complete');
+            expect(mockFetch).toHaveBeenCalledTimes(2);
+        });
+
+        it('should not cache write requests', async () => {
+            const client = new CodaClient({
+                apiToken: 'test_token_1234567890abcdef',
+                transport: mockFetch,
+                logLevel: LogLevel.NONE
+            });
+
+            mockFetch.mockResolvedValue(jsonResponse({ requestId: 'req123' }, 202));
+
+            await client.deleteDoc('doc1');
+            await client.deleteDoc('doc1');
+
+            expect(mockFetch).toHaveBeenCalledTimes(2);
+
+            const stats = await client.getDetailedStats();
+            expect(stats.rateLimiter?.writeRequests).toBe(2);
+            expect(stats.cache?.size).toBe(0);
+        });
+
+        it('should evict table entries after a row mutation', async () => {
+            const client = new CodaClient({
+                apiToken: 'test_token_1234567890abcdef',
+                transport: mockFetch,
+                logLevel: LogLevel.NONE
+            });
+
+            mockFetch
+                .mockResolvedValueOnce(jsonResponse({ items: [] }))
+                .mockResolvedValueOnce(jsonResponse({ id: 'table1', rowCount: 0 }))
+                .mockResolvedValueOnce(jsonResponse({ requestId: 'req123' }, 202))
+                .mockResolvedValueOnce(jsonResponse({ items: [{ id: 'row1' }] }))
+                .mockResolvedValueOnce(jsonResponse({ id: 'table1', rowCount: 1 }));
+
+            await client.listRows('doc1', 'table1');
+            await client.getTable('doc1', 'table1');
+            await client.insertRows('doc1', 'table1', [{ cells: [{ column: 'Name', value: 'John' }] }]);
+
+            const rows = await client.listRows('doc1', 'table1');
+            const table = await client.getTable('doc1', 'table1');
+
+            expect(rows.items).toHaveLength(1);
+            expect(table.rowCount).toBe(1);
+            expect(mockFetch).toHaveBeenCalledTimes(5);
+        });
+
+        it('should evict document lists after creating a doc', async () => {
+            const client = new CodaClient({
+                apiToken: 'test_token_1234567890abcdef',
+                transport: mockFetch,
+                logLevel: LogLevel.NONE
+            });
+
+            mockFetch
+                .mockResolvedValueOnce(jsonResponse({ items: [] }))
+                .mockResolvedValueOnce(jsonResponse({ id: 'doc1' }, 201))
+                .mockResolvedValueOnce(jsonResponse({ items: [{ id: 'doc1' }] }));
+
+            await client.listDocs();
+            await client.createDoc('New doc');
+            const docs = await client.listDocs();
+
+            expect(docs.items).toHaveLength(1);
+        });
+
+        it('should send the name of a new doc as its title', async () => {
+            const client = new CodaClient({
+                apiToken: 'test_token_1234567890abcdef',
+                transport: mockFetch,
+                logLevel: LogLevel.NONE
+            });
+
+            mockFetch.mockResolvedValueOnce(jsonResponse({ id: 'doc2' }, 201));
+
+            await client.createDoc('Project (copy)', { sourceDoc: 'doc1', folderId: 'fl1' });
+
+            expect(mockFetch).toHaveBeenCalledWith(
+                expect.stringContaining('/docs'),
+                expect.objectContaining({ body: JSON.stringify({ title: 'Project (copy)', sourceDoc: 'doc1', folderId: 'fl1' }) })
+            );
+        });
+
+        it('should send the row IDs when deleting rows', async () => {
+            const client = new CodaClient({
+                apiToken: 'test_token_1234567890abcdef',
+                transport: mockFetch,
+                logLevel: LogLevel.NONE
+            });
+
+            mockFetch.mockResolvedValueOnce(jsonResponse({ requestId: 'req123' }, 202));
+
+            await client.deleteRows('doc1', 'table1', ['row1', 'row2']);
+
+            expect(mockFetch).toHaveBeenCalledWith(
+                expect.stringContaining('/docs/doc1/tables/table1/rows'),
+                expect.objectContaining({
+                    method: 'DELETE',
+                    body: JSON.stringify({ rowIds: ['row1', 'row2'] })
+                })
+            );
+        });
+
+        it('should record rate limit hits', async () => {
+            const client = new CodaClient({
+                apiToken: 'test_token_1234567890abcdef',
+                transport: mockFetch,
+                logLevel: LogLevel.NONE,
+                retries: 0
+            });
+
+            mockFetch.mockResolvedValueOnce({
+                ok: false,
+                status: 429,
+                headers: { get: (name: string) => name === 'retry-after' ? '1' : null }
+            } as any);
+
+            await expect(client.whoAmI()).rejects.toThrow(CodaRateLimitError);
+
+            const stats = await client.getDetailedStats();
+            expect(stats.metrics?.rateLimitHits).toBe(1);
+            expect(stats.metrics?.failedRequests).toBe(1);
+        });
+
+        it('should record every retry attempt', async () => {
+            const client = new CodaClient({
+                apiToken: 'test_token_1234567890abcdef',
+                transport: mockFetch,
+                logLevel: LogLevel.NONE,
+                retries: 1
+            });
+
+            mockFetch
+                .mockRejectedValueOnce(new Error('Network error'))
+                .mockResolvedValueOnce(jsonResponse({ name: 'Test User' }));
+
+            await client.whoAmI();
+
+            const stats = await client.getDetailedStats();
+            expect(stats.metrics?.totalRequests).toBe(2);
+            expect(stats.metrics?.failedRequests).toBe(1);
+            expect(stats.metrics?.successfulRequests).toBe(1);
+        });
+
+        it('should not retry POST requests by default', async () => {
+            const client = new CodaClient({
+                apiToken: 'test_token_1234567890abcdef',
+                transport: mockFetch,
+                logLevel: LogLevel.NONE,
+                retries: 2
+            });
+
+            mockFetch.mockResolvedValueOnce(jsonResponse({ message: 'Server error' }, 500));
+
+            await expect(client.createDoc('New doc')).rejects.toThrow('Server error');
+            expect(mockFetch).toHaveBeenCalledTimes(1);
+        });
+
+        it('should wait for Retry-After and notify retries', async () => {
+            const onRetry = jest.fn();
+            const client = new CodaClient({
+                apiToken: 'test_token_1234567890abcdef',
+                transport: mockFetch,
+                logLevel: LogLevel.NONE,
+                retryPolicy: { maxRetries: 1, onRetry }
+            });
+
+            mockFetch
+                .mockResolvedValueOnce({
+                    ok: false,
+                    status: 429,
+                    headers: { get: (name: string) => name === 'retry-after' ? '0' : null }
+                } as any)
+                .mockResolvedValueOnce(jsonResponse({ requestId: 'req123' }, 202));
+
+            const result = await client.insertRows('doc1', 'table1', []);
+
+            expect(result.requestId).toBe('req123');
+            expect(onRetry).toHaveBeenCalledWith(expect.objectContaining({
+                method: 'POST',
+                attempt: 1,
+                delay: 0,
+                kind: 'rateLimit'
+            }));
+        });
+
+        it('should back off when a rate limit has no Retry-After', async () => {
+            const onRetry = jest.fn();
+            const client = new CodaClient({
+                apiToken: 'test_token_1234567890abcdef',
+                transport: mockFetch,
+                logLevel: LogLevel.NONE,
+                retryPolicy: { maxRetries: 1, baseDelay: 10, jitter: false, onRetry }
+            });
+
+            mockFetch
+                .mockResolvedValueOnce({ ok: false, status: 429, headers: { get: () => null } } as any)
+                .mockResolvedValueOnce(jsonResponse({ name: 'Test User' }));
+
+            await client.whoAmI();
+
+            expect(onRetry).toHaveBeenCalledWith(expect.objectContaining({ delay: 10, kind: 'rateLimit' }));
+        });
+    });
+});
@@ -0,0 +1,64 @@
+import { composeMiddlewares, CodaMiddleware, CodaRequestContext, metricsMiddleware } from '../middleware';
+import { MetricsCollector } from '../metrics';
+import { CodaRateLimitError } from '../../types';
+
+describe('Middlewares', () => {
+    const createContext = (): CodaRequestContext => ({
+        method: 'GET',
+        baseUrl: 'https://coda.io/apis/v1',
+        endpoint: '/whoami',
+        headers: {},
+        attempt: 0,
+        type: 'read',
+        timeout: 1000,
+        state: {}
+    });
+
+    describe('composeMiddlewares', () => {
+        it('should run middlewares in order around the handler', async () => {
+            const calls: string[] = [];
+            const trace = (name: string): CodaMiddleware => async (_context, next) => {
+                calls.push(`${name}:before`);
+                const result = await next();
+                calls.push(`${name}:after`);
+                return result;
+            };
+
+            const pipeline = composeMiddlewares([trace('a'), trace('b')], async () => {
+                calls.push('handler');
+                return 'done';
+            });
+
+            await expect(pipeline(createContext())).resolves.toBe('done');
+            expect(calls).toEqual(['a:before', 'b:before', 'handler', 'b:after', 'a:after']);
+        });
+
+        it('should reject when next() is called twice', async () => {
+            const pipeline = composeMiddlewares([
+                async (_context, next) => {
+                    await next();
+                    return next();
+                }
+            ], async () => 'done');
+
+            await expect(pipeline(createContext())).rejects.toThrow('next() called multiple times');
+        });
+    });
+
+    describe('metricsMiddleware', () => {
+        it('should record successes, failures and rate limits', async () => {
+            const metrics = new MetricsCollector();
+            const middleware = metricsMiddleware(metrics);
+
+            await middleware(createContext(), async () => 'ok');
+            await expect(middleware(createContext(), async () => {
+                throw new CodaRateLimitError(1);
+            })).rejects.toThrow(CodaRateLimitError);
+
+            const stats = metrics.getStats();
+            expect(stats.successfulRequests).toBe(1);
+            expect(stats.failedRequests).toBe(1);
+            expect(stats.rateLimitHits).toBe(1);
+        });
+    });
+});
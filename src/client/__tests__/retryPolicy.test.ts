@@ -0,0 +1,91 @@
+import { RetryStrategy } from '../retryPolicy';
+import { CodaApiError, CodaRateLimitError } from '../../types';
+
+describe('RetryStrategy', () => {
+    describe('shouldRetry', () => {
+        it('should stop after the maximum number of retries', () => {
+            const strategy = new RetryStrategy(undefined, 2);
+            const error = new CodaApiError('Server error', 500);
+
+            expect(strategy.shouldRetry(error, 1, 'GET')).toBe(true);
+            expect(strategy.shouldRetry(error, 2, 'GET')).toBe(false);
+        });
+
+        it('should only retry configured status codes', () => {
+            const strategy = new RetryStrategy({ retryOnStatus: [503] });
+
+            expect(strategy.shouldRetry(new CodaApiError('Unavailable', 503), 0, 'GET')).toBe(true);
+            expect(strategy.shouldRetry(new CodaApiError('Server error', 500), 0, 'GET')).toBe(false);
+            expect(strategy.shouldRetry(new CodaApiError('Not found', 404), 0, 'GET')).toBe(false);
+        });
+
+        it('should not retry POST requests unless marked safe', () => {
+            const strategy = new RetryStrategy();
+            const error = new CodaApiError('Server error', 500);
+
+            expect(strategy.shouldRetry(error, 0, 'POST')).toBe(false);
+            expect(strategy.shouldRetry(error, 0, 'POST', true)).toBe(true);
+        });
+
+        it('should retry rate limits whatever the method', () => {
+            const strategy = new RetryStrategy();
+
+            expect(strategy.shouldRetry(new CodaRateLimitError(1), 0, 'POST')).toBe(true);
+        });
+
+        it('should retry timeouts and network errors according to the policy', () => {
+            const strategy = new RetryStrategy({ retryOnTimeout: false });
+            const timeout = Object.assign(new Error('network timeout'), { type: 'request-timeout' });
+
+            expect(strategy.classify(timeout)).toBe('timeout');
+            expect(strategy.shouldRetry(timeout, 0, 'GET')).toBe(false);
+            expect(strategy.shouldRetry(new Error('ECONNRESET'), 0, 'GET')).toBe(true);
+        });
+    });
+
+    describe('getDelay', () => {
+        it('should grow exponentially up to the max delay', () => {
+            const strategy = new RetryStrategy({ baseDelay: 100, maxDelay: 500, jitter: false });
+            const error = new CodaApiError('Server error', 500);
+
+            expect(strategy.getDelay(error, 0)).toBe(100);
+            expect(strategy.getDelay(error, 2)).toBe(400);
+            expect(strategy.getDelay(error, 5)).toBe(500);
+        });
+
+        it('should keep jittered delays between half and the full delay', () => {
+            const strategy = new RetryStrategy({ baseDelay: 1000 });
+            const error = new CodaApiError('Server error', 500);
+
+            for (let i = 0; i < 20; i++) {
+                const delay = strategy.getDelay(error, 1);
+                expect(delay).toBeGreaterThanOrEqual(1000);
+                expect(delay).toBeLessThanOrEqual(2000);
+            }
+        });
+
+        it('should honor Retry-After on rate limits', () => {
+            const strategy = new RetryStrategy({ maxDelay: 10000 });
+
+            expect(strategy.getDelay(new CodaRateLimitError(5), 0)).toBe(5000);
+        });
+
+        it('should cap Retry-After with maxDelay', () => {
+            const strategy = new RetryStrategy({ maxDelay: 1000 });
+
+            expect(strategy.getDelay(new CodaRateLimitError(3600), 0)).toBe(1000);
+        });
+
+        it('should use the backoff when a rate limit has no Retry-After', () => {
+            const strategy = new RetryStrategy({ baseDelay: 100, jitter: false });
+
+            expect(strategy.getDelay(new CodaRateLimitError(), 2)).toBe(400);
+        });
+
+        it('should fall back to the backoff when Retry-After is ignored', () => {
+            const strategy = new RetryStrategy({ respectRetryAfter: false, baseDelay: 100, jitter: false });
+
+            expect(strategy.getDelay(new CodaRateLimitError(5), 0)).toBe(100);
+        });
+    });
+});
@@ -0,0 +1,125 @@
+import { jest } from '@jest/globals';
+import { CodaClient } from '../codaClient';
+import { CodaTransport } from '../transport';
+import { CodaValidationError } from '../../types';
+import { LogLevel } from '../../utils/logger';
+
+interface TaskRow {
+    Name: string;
+    'Due date': string;
+    Done: boolean;
+}
+
+const mockFetch = jest.fn<CodaTransport>();
+
+function jsonResponse(data: any, status = 200) {
+    return {
+        ok: status >= 200 && status < 300,
+        status,
+        statusText: 'OK',
+        headers: { get: (name: string) => name.toLowerCase() === 'content-type' ? 'application/json' : null },
+        json: async () => data,
+        text: async () => JSON.stringify(data)
+    };
+}
+
+const columns = {
+    items: [
+        { id: 'c-name', name: 'Name' },
+        { id: 'c-due', name: 'Due date' },
+        { id: 'c-done', name: 'Done' }
+    ]
+};
+
+function requestBody(call: number): any {
+    return JSON.parse(mockFetch.mock.calls[call][1].body as string);
+}
+
+describe('TypedTable', () => {
+    let client: CodaClient;
+
+    beforeEach(() => {
+        mockFetch.mockReset();
+        client = new CodaClient({
+            apiToken: 'test_token_1234567890abcdef',
+            transport: mockFetch,
+            logLevel: LogLevel.NONE,
+            enableCache: false
+        });
+    });
+
+    it('should insert typed objects as cells keyed by column ID', async () => {
+        mockFetch
+            .mockResolvedValueOnce(jsonResponse(columns))
+            .mockResolvedValueOnce(jsonResponse({ requestId: 'req-1', addedRowIds: ['i-1'] }));
+
+        const tasks = client.table<TaskRow>('doc1', 'grid-1');
+        const result = await tasks.insert([{ Name: 'Write docs', Done: false }]);
+
+        expect(result.addedRowIds).toEqual(['i-1']);
+        expect(requestBody(1)).toEqual({
+            rows: [{ cells: [{ column: 'c-name', value: 'Write docs' }, { column: 'c-done', value: false }] }]
+        });
+    });
+
+    it('should read rows back with the keys of the row type', async () => {
+        mockFetch
+            .mockResolvedValueOnce(jsonResponse(columns))
+            .mockResolvedValueOnce(jsonResponse({
+                items: [{ id: 'i-1', name: 'Write docs', index: 0, values: { 'c-name': 'Write docs', 'c-due': '2024-01-01', 'c-done': true } }]
+            }));
+
+        const rows = await client.table<TaskRow>('doc1', 'grid-1').list({ where: { Done: true } });
+
+        expect(rows[0].id).toBe('i-1');
+        expect(rows[0].values).toEqual({ Name: 'Write docs', 'Due date': '2024-01-01', Done: true });
+        const url = new URL(mockFetch.mock.calls[1][0]);
+        expect(url.searchParams.get('query')).toBe('c-done:true');
+        expect(url.searchParams.get('valueFormat')).toBe('simpleWithArrays');
+    });
+
+    it('should keep working when a column listed by ID is renamed', async () => {
+        mockFetch
+            .mockResolvedValueOnce(jsonResponse({ items: [{ id: 'c-name', name: 'Title' }, { id: 'c-due', name: 'Deadline' }, { id: 'c-done', name: 'Done' }] }))
+            .mockResolvedValueOnce(jsonResponse({ requestId: 'req-1' }));
+
+        const tasks = client.table<TaskRow>('doc1', 'grid-1', { columnIds: { Name: 'c-name', 'Due date': 'c-due' } });
+        await tasks.update('i-1', { 'Due date': '2024-02-01' });
+
+        expect(requestBody(1)).toEqual({ row: { cells: [{ column: 'c-due', value: '2024-02-01' }] } });
+    });
+
+    it('should upsert on key columns translated to IDs', async () => {
+        mockFetch
+            .mockResolvedValueOnce(jsonResponse(columns))
+            .mockResolvedValueOnce(jsonResponse({ requestId: 'req-1' }));
+
+        await client.table<TaskRow>('doc1', 'grid-1').upsert([{ Name: 'Write docs', Done: true }], ['Name']);
+
+        expect(requestBody(1).keyColumns).toEqual(['c-name']);
+    });
+
+    it('should reject keys that match no column at runtime', async () => {
+        mockFetch.mockResolvedValueOnce(jsonResponse({ items: [{ id: 'c-name', name: 'Name' }] }));
+
+        await expect(client.table<TaskRow>('doc1', 'grid-1').update('i-1', { Done: true })).rejects.toThrow(CodaValidationError);
+    });
+
+    it('should reject unknown keys at compile time', () => {
+        const tasks = client.table<TaskRow>('doc1', 'grid-1');
+        const withTypo = { Name: 'Write docs', Dne: true };
+
+        const typeChecks = () => {
+            // @ts-expect-error unknown column in an object literal
+            tasks.insert([{ Name: 'Write docs', Dne: true }]);
+            // @ts-expect-error unknown column in a variable
+            tasks.update('i-1', withTypo);
+            // @ts-expect-error wrong value type
+            tasks.update('i-1', { Done: 'yes' });
+            // @ts-expect-error unknown key column
+            tasks.upsert([], ['Title']);
+        };
+
+        expect(typeChecks).toBeDefined();
+    });
+});
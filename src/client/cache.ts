@@ -1,21 +1,42 @@
-type CacheEntry<T> = { data: T; timestamp: number; ttl: number };
+import {CacheStats} from "../types";
+import {CacheEntry, CacheStore, MemoryCacheStore} from "./cacheStore";
+
+/**
+ * Cache entries to evict after a mutation.
+ * Keys are API paths, optionally followed by a query string (e.g. `/docs/abc/tables?limit=10`).
+ */
+export interface CacheInvalidation {
+    /** Evict the path itself, its query variants and everything below it */
+    prefixes?: string[];
+    /** Evict the path itself and its query variants only */
+    paths?: string[];
+}
 
 export class ApiCache {
-    private cache = new Map<string, CacheEntry<any>>();
     private hits = 0;
     private misses = 0;
+    private expirations = 0;
 
-    constructor(private defaultTtl: number = 300000) {} // 5 min by default
+    /**
+     * @param namespace Prefix of the keys in the store, so that clients with different tokens
+     * or base URLs can share a persistent store without reading each other's responses
+     */
+    constructor(
+        private defaultTtl: number = 300000, // 5 min by default
+        private readonly store: CacheStore = new MemoryCacheStore(),
+        private readonly namespace: string = ''
+    ) {}
 
-    get<T>(key: string): T | null {
-        const entry = this.cache.get(key);
+    async get<T>(key: string): Promise<T | null> {
+        const entry = await this.store.get(this.storeKey(key));
         if (!entry) {
             this.misses++;
             return null;
         }
 
-        if (Date.now() > entry.timestamp + entry.ttl) {
-            this.cache.delete(key);
+        if (this.isExpired(entry)) {
+            await this.store.delete(this.storeKey(key));
+            this.expirations++;
             this.misses++;
             return null;
         }
@@ -24,41 +45,132 @@ export class ApiCache {
         return entry.data;
     }
 
-    set<T>(key: string, data: T, ttl?: number): void {
+    async set<T>(key: string, data: T, ttl?: number): Promise<void> {
         const actualTtl = ttl || this.defaultTtl;
-        this.cache.set(key, {
+        await this.store.set(this.storeKey(key), {
             data,
             timestamp: Date.now(),
             ttl: actualTtl
         });
     }
 
-    delete(key: string): boolean {
-        return this.cache.delete(key);
+    async delete(key: string): Promise<boolean> {
+        return this.store.delete(this.storeKey(key));
+    }
+
+    /**
+     * Remove every entry under a path prefix.
+     * `/docs/abc/tables/t1` matches `/docs/abc/tables/t1`, `/docs/abc/tables/t1/rows?limit=10`
+     * but not `/docs/abc/tables/t10`.
+     * @returns The number of removed entries
+     */
+    async invalidatePrefix(prefix: string): Promise<number> {
+        const base = prefix.replace(/\/+$/, '');
+        return this.deleteWhere(path => path === base || path.startsWith(`${base}/`));
+    }
+
+    /**
+     * Remove every entry for an exact path, whatever its query string
+     * @returns The number of removed entries
+     */
+    async invalidatePath(path: string): Promise<number> {
+        const base = path.replace(/\/+$/, '');
+        return this.deleteWhere(keyPath => keyPath === base);
+    }
+
+    /**
+     * Apply a set of invalidation rules
+     * @returns The number of removed entries
+     */
+    async invalidate(invalidation: CacheInvalidation): Promise<number> {
+        let removed = 0;
+        for (const prefix of invalidation.prefixes || []) {
+            removed += await this.invalidatePrefix(prefix);
+        }
+        for (const path of invalidation.paths || []) {
+            removed += await this.invalidatePath(path);
+        }
+        return removed;
+    }
+
+    private async deleteWhere(match: (path: string) => boolean): Promise<number> {
+        const keys = (await this.ownKeys()).filter(key => match(key.split('?')[0]));
+        return this.deleteKeys(keys);
     }
 
-    clear(): void {
-        this.cache.clear();
+    /**
+     * Delete entries in one call when the store supports it, e.g. a single file write
+     */
+    private async deleteKeys(keys: string[]): Promise<number> {
+        if (keys.length === 0) {
+            return 0;
+        }
+
+        const storeKeys = keys.map(key => this.storeKey(key));
+        if (this.store.deleteMany) {
+            return this.store.deleteMany(storeKeys);
+        }
+
+        let removed = 0;
+        for (const key of storeKeys) {
+            if (await this.store.delete(key)) {
+                removed++;
+            }
+        }
+        return removed;
+    }
+
+    private storeKey(key: string): string {
+        return this.namespace ? `${this.namespace}:${key}` : key;
+    }
+
+    /**
+     * Keys of this cache, without the namespace
+     */
+    private async ownKeys(): Promise<string[]> {
+        const keys = await this.store.keys();
+        if (!this.namespace) {
+            return keys;
+        }
+        const prefix = `${this.namespace}:`;
+        return keys.filter(key => key.startsWith(prefix)).map(key => key.slice(prefix.length));
+    }
+
+    async clear(): Promise<void> {
+        if (this.namespace) {
+            // The store may be shared with other namespaces
+            await this.deleteKeys(await this.ownKeys());
+        } else {
+            await this.store.clear();
+        }
         this.hits = 0;
         this.misses = 0;
+        this.expirations = 0;
     }
 
-    getStats() {
+    async getStats(): Promise<CacheStats> {
         return {
-            size: this.cache.size,
+            size: this.namespace ? (await this.ownKeys()).length : await this.store.size(),
             hits: this.hits,
             misses: this.misses,
-            hitRate: this.hits + this.misses > 0 ? this.hits / (this.hits + this.misses) : 0
+            hitRate: this.hits + this.misses > 0 ? this.hits / (this.hits + this.misses) : 0,
+            evictions: this.expirations + (this.store.evictions || 0)
         };
     }
 
     // Cleanup expired entries automatically
-    cleanup(): void {
-        const now = Date.now();
-        for (const [key, entry] of this.cache.entries()) {
-            if (now > entry.timestamp + entry.ttl) {
-                this.cache.delete(key);
+    async cleanup(): Promise<void> {
+        const expired: string[] = [];
+        for (const key of await this.ownKeys()) {
+            const entry = await this.store.get(this.storeKey(key));
+            if (entry && this.isExpired(entry)) {
+                expired.push(key);
             }
         }
+        this.expirations += await this.deleteKeys(expired);
+    }
+
+    private isExpired(entry: CacheEntry): boolean {
+        return Date.now() > entry.timestamp + entry.ttl;
     }
-}
\ No newline at end of file
+}
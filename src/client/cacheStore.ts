@@ -0,0 +1,130 @@
+export type MaybePromise<T> = T | Promise<T>;
+
+export interface CacheEntry<T = any> {
+    data: T;
+    timestamp: number;
+    ttl: number;
+}
+
+/**
+ * Storage backend used by ApiCache.
+ * Every method may be synchronous or return a promise, so remote stores fit the same shape.
+ * Expiration is handled by ApiCache: a store only keeps entries and may drop them when full.
+ *
+ * @example Redis adapter (ioredis)
+ * ```ts
+ * const redisStore: CacheStore = {
+ *     async get(key) {
+ *         const raw = await redis.get(`coda:${key}`);
+ *         return raw ? JSON.parse(raw) : undefined;
+ *     },
+ *     async set(key, entry) {
+ *         await redis.set(`coda:${key}`, JSON.stringify(entry), 'PX', entry.ttl);
+ *     },
+ *     async delete(key) {
+ *         return (await redis.del(`coda:${key}`)) > 0;
+ *     },
+ *     async keys() {
+ *         return (await redis.keys('coda:*')).map(key => key.slice(5));
+ *     },
+ *     async clear() {
+ *         const keys = await redis.keys('coda:*');
+ *         if (keys.length) await redis.del(...keys);
+ *     },
+ *     async size() {
+ *         return (await redis.keys('coda:*')).length;
+ *     }
+ * };
+ * ```
+ */
+export interface CacheStore {
+    get(key: string): MaybePromise<CacheEntry | undefined>;
+    set(key: string, entry: CacheEntry): MaybePromise<void>;
+    delete(key: string): MaybePromise<boolean>;
+    /** Delete several entries at once, returning how many existed. Optional, `delete` is used otherwise */
+    deleteMany?(keys: string[]): MaybePromise<number>;
+    keys(): MaybePromise<string[]>;
+    clear(): MaybePromise<void>;
+    size(): MaybePromise<number>;
+    /** Number of entries dropped by the store itself (capacity limits) */
+    evictions?: number;
+}
+
+export interface MemoryCacheStoreOptions {
+    maxEntries?: number;
+    maxBytes?: number;
+}
+
+/**
+ * Bounded in-memory store, least recently used entries are evicted first
+ */
+export class MemoryCacheStore implements CacheStore {
+    private entries = new Map<string, { entry: CacheEntry; bytes: number }>();
+    private totalBytes = 0;
+    private readonly maxEntries: number;
+    private readonly maxBytes: number;
+    evictions = 0;
+
+    constructor(options?: MemoryCacheStoreOptions) {
+        this.maxEntries = options?.maxEntries ?? 1000;
+        this.maxBytes = options?.maxBytes ?? Infinity;
+    }
+
+    get(key: string): CacheEntry | undefined {
+        const item = this.entries.get(key);
+        if (!item) {
+            return undefined;
+        }
+
+        // Move to the most recently used position
+        this.entries.delete(key);
+        this.entries.set(key, item);
+        return item.entry;
+    }
+
+    set(key: string, entry: CacheEntry): void {
+        this.delete(key);
+
+        const bytes = this.maxBytes === Infinity ? 0 : Buffer.byteLength(JSON.stringify(entry.data) ?? '');
+        if (bytes > this.maxBytes) {
+            this.evictions++;
+            return;
+        }
+
+        this.entries.set(key, { entry, bytes });
+        this.totalBytes += bytes;
+
+        while (this.entries.size > this.maxEntries || this.totalBytes > this.maxBytes) {
+            const oldestKey = this.entries.keys().next().value as string;
+            this.delete(oldestKey);
+            this.evictions++;
+        }
+    }
+
+    delete(key: string): boolean {
+        const item = this.entries.get(key);
+        if (!item) {
+            return false;
+        }
+
+        this.totalBytes -= item.bytes;
+        return this.entries.delete(key);
+    }
+
+    keys(): string[] {
+        return Array.from(this.entries.keys());
+    }
+
+    clear(): void {
+        this.entries.clear();
+        this.totalBytes = 0;
+    }
+
+    size(): number {
+        return this.entries.size;
+    }
+
+    getByteSize(): number {
+        return this.totalBytes;
+    }
+}
@@ -1,5 +1,6 @@
 import { config } from 'dotenv';
-import fetch, { Response } from 'node-fetch';
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
 import {
     CodaClientConfig,
     CodaResponse,
@@ -15,14 +16,85 @@ import {
     CodaTableListParams,
     CodaRowListParams,
     CodaRowRequest,
+    CodaPage,
+    CodaPageCreateRequest,
+    CodaPageUpdateRequest,
+    CodaPageMutationResponse,
+    CodaPageExportFormat,
+    CodaPageExportResponse,
+    CodaPageExportStatus,
+    CodaPageExportOptions,
+    CodaFormula,
+    CodaFormulaReference,
+    CodaControl,
+    CodaControlReference,
+    CodaPushButtonResponse,
+    CodaTableSchema,
+    CodaSelectOption,
+    CodaView,
+    CodaViewListParams,
+    CodaAutomationTriggerResponse,
+    CodaPermission,
+    CodaPrincipal,
+    CodaAccessType,
+    CodaAclMetadata,
+    CodaAclSettings,
+    CodaPrincipalSearchResult,
+    CodaPublishOptions,
+    CodaPublishResponse,
+    CodaDocCategory,
+    CodaAnalyticsDate,
+    CodaAnalyticsDateRange,
+    CodaDocAnalyticsItem,
+    CodaDocAnalyticsParams,
+    CodaDocAnalyticsSummary,
+    CodaDocAnalyticsSummaryParams,
+    CodaPackAnalyticsItem,
+    CodaPackAnalyticsParams,
+    CodaPageAnalyticsItem,
+    CodaPageAnalyticsParams,
+    CodaBrowserLink,
+    CodaResolveBrowserLinkResponse,
+    CodaInvalidLinkError,
+    CodaDocUpdateRequest,
+    CodaFolder,
+    CodaFolderCreateRequest,
+    CodaFolderListParams,
+    CodaWorkspace,
+    CodaWorkspaceListParams,
+    CodaWorkspaceRole,
+    CodaWorkspaceRoleChangeResponse,
+    CodaWorkspaceUser,
+    CodaWorkspaceUserListParams,
+    CodaValidationError,
     CodaListParams,
     CodaRateLimitError,
+    CodaAbortError,
+    CodaTimeoutError,
+    CodaRequestOptions,
     RequestMetrics,
+    RequestType,
+    ClientDetailedStats,
     Method
 } from '../types';
-import {Logger, LogLevel} from "../utils";
+import {Logger, LogLevel} from "../utils/logger";
+import {sleep, throwIfAborted} from "../utils/abort";
+import {parseApiLink, parseBrowserLink} from "../utils/browserLink";
+import {normalizeTableSchema} from "../schema/tableSchema";
+import {CodaRowValues, TypedTable, TypedTableOptions} from "./typedTable";
+import {DataValidator} from "../validator";
 import {RateLimiter} from "./rateLimiter";
-import {ApiCache} from "./cache";
+import {ApiCache, CacheInvalidation} from "./cache";
+import {CacheStore} from "./cacheStore";
+import {RetryPolicy, RetryStrategy} from "./retryPolicy";
+import {CodaTransport, CodaTransportRequest, CodaTransportResponse, getDefaultTransport} from "./transport";
+import {
+    CodaMiddleware,
+    CodaRequestContext,
+    composeMiddlewares,
+    metricsMiddleware,
+    rateLimitMiddleware
+} from "./middleware";
 import {MetricsCollector} from "./metrics";
 
 // Load environment variables
@@ -34,18 +106,29 @@ export interface EnhancedCodaClientConfig extends CodaClientConfig {
     enableMetrics?: boolean;
     logLevel?: LogLevel;
     cacheTtl?: number;
+    /** Storage backend for the cache, a bounded in-memory LRU store by default */
+    cacheStore?: CacheStore;
+    /** Retry rules, `retries` is used as the maximum number of retries when not set here */
+    retryPolicy?: RetryPolicy;
+    /** fetch-compatible function used for HTTP calls, global fetch by default */
+    transport?: CodaTransport;
+    /** Check rows against the table schema before `insertRows` and `updateRow`, can be overridden per call */
+    validateWrites?: boolean;
 }
 
 export class CodaClient {
     private readonly apiToken: string;
     private readonly baseUrl: string;
     private readonly timeout: number;
-    private readonly retries: number;
+    private readonly retryStrategy: RetryStrategy;
+    private readonly transport: CodaTransport;
+    private readonly validateWrites: boolean;
 
     private readonly rateLimiter?: RateLimiter;
     private readonly cache?: ApiCache;
     private readonly metrics?: MetricsCollector;
     private readonly logger?: Logger;
+    private readonly middlewares: CodaMiddleware[] = [];
 
     constructor(configParam?: EnhancedCodaClientConfig) {
         const cfg = configParam || {};
@@ -74,7 +157,9 @@ export class CodaClient {
 
         this.baseUrl = cfg.baseUrl || 'https://coda.io/apis/v1';
         this.timeout = cfg.timeout || 30000; // 30 seconds
-        this.retries = cfg.retries || 3;
+        this.retryStrategy = new RetryStrategy(cfg.retryPolicy, cfg.retries);
+        this.transport = cfg.transport || getDefaultTransport();
+        this.validateWrites = cfg.validateWrites ?? false;
 
         if (cfg.enableRateLimit !== false) {
             this.rateLimiter = new RateLimiter();
@@ -82,7 +167,9 @@ export class CodaClient {
         }
 
         if (cfg.enableCache !== false) {
-            this.cache = new ApiCache(cfg.cacheTtl);
+            // Responses depend on the token and the API, a persistent store must not mix them
+            const namespace = createHash('sha256').update(`${this.baseUrl}\n${this.apiToken}`).digest('hex').slice(0, 16);
+            this.cache = new ApiCache(cfg.cacheTtl, cfg.cacheStore, namespace);
             this.logger.debug('Cache activated');
         }
 
@@ -112,67 +199,247 @@ export class CodaClient {
             method?: Method;
             body?: any;
             params?: Record<string, any>;
-        } = {}
+            cache?: boolean;
+            invalidate?: CacheInvalidation;
+            /** The request can be replayed safely even if its method is not retried by the policy */
+            retrySafe?: boolean;
+        } & CodaRequestOptions = {}
     ): Promise<T> {
-        const { method = 'GET', body, params } = options;
-        const url = new URL(`${this.baseUrl}${endpoint}`);
+        const { method = 'GET', params, signal } = options;
+        const useCache = method === 'GET' && options.cache !== false && !!this.cache;
+        const cacheKey = `${endpoint}${this.buildUrl(this.baseUrl, endpoint, params).search}`;
 
-        // Add query parameters
-        if (params) {
-            Object.entries(params).forEach(([key, value]) => {
-                if (value !== undefined && value !== null) {
-                    url.searchParams.append(key, String(value));
-                }
-            });
+        throwIfAborted(signal);
+
+        // Serve reads from the cache when possible
+        if (useCache) {
+            const cached = await this.cache!.get<T>(cacheKey);
+            if (cached !== null) {
+                this.metrics?.recordRequest(0, true, true);
+                this.logger?.debug(`Cache hit: ${method} ${endpoint}`);
+                return cached;
+            }
         }
 
-        const requestOptions: any = {
-            method,
-            headers: {
-                'Authorization': `Bearer ${this.apiToken}`,
-                'Content-Type': 'application/json',
-                'User-Agent': 'coda-typescript-sdk/0.1.0'
-            },
-            timeout: this.timeout
-        };
+        const data = await this.requestWithRetry<T>(endpoint, options);
 
-        if (body && (method === 'POST' || method === 'PUT')) {
-            requestOptions.body = JSON.stringify(body);
+        // The call succeeded: a failing cache store must neither replay it nor reject it
+        if (useCache) {
+            try {
+                await this.cache!.set(cacheKey, data);
+            } catch (error) {
+                this.logger?.warn(`Cache write failed after ${method} ${endpoint}: ${(error as Error).message}`);
+            }
         }
 
-        let lastError: Error;
+        if (options.invalidate && this.cache) {
+            await this.applyInvalidation(options.invalidate, `${method} ${endpoint}`);
+        }
+
+        return data;
+    }
+
+    /**
+     * Evict the entries affected by a mutation, clearing the whole cache when the rules cannot be applied
+     */
+    private async applyInvalidation(invalidation: CacheInvalidation, request: string): Promise<void> {
+        try {
+            const removed = await this.cache!.invalidate(invalidation);
+            this.logger?.debug(`Cache invalidated: ${removed} entries after ${request}`);
+        } catch (error) {
+            this.logger?.warn(`Cache invalidation failed after ${request}: ${(error as Error).message}`);
+            try {
+                await this.cache!.clear();
+            } catch (clearError) {
+                this.logger?.error(`Cache may serve stale entries, clearing it failed: ${(clearError as Error).message}`);
+            }
+        }
+    }
+
+    /**
+     * HTTP call through the middlewares, retried according to the retry policy
+     */
+    private async requestWithRetry<T>(
+        endpoint: string,
+        options: { method?: Method; body?: any; params?: Record<string, any>; retrySafe?: boolean } & CodaRequestOptions
+    ): Promise<T> {
+        const { method = 'GET', body, params, signal } = options;
+        const pipeline = composeMiddlewares(this.getMiddlewares(), context => this.send(context));
 
         // Logic of retry
-        for (let attempt = 0; attempt <= this.retries; attempt++) {
+        for (let attempt = 0; ; attempt++) {
             try {
-                const response = await fetch(url.toString(), requestOptions);
-                return await this.handleResponse<T>(response);
+                return await pipeline({
+                    method,
+                    baseUrl: this.baseUrl,
+                    endpoint,
+                    params,
+                    body,
+                    headers: {
+                        'Authorization': `Bearer ${this.apiToken}`,
+                        'Content-Type': 'application/json',
+                        'User-Agent': 'coda-typescript-sdk/0.1.0'
+                    },
+                    attempt,
+                    type: this.getRequestType(method),
+                    timeout: options.timeout ?? this.timeout,
+                    signal,
+                    state: {}
+                }) as T;
             } catch (error) {
-                lastError = error as Error;
-
-                // Don't retry on authentication or validation errors
-                if (error instanceof CodaApiError && [401, 403, 400, 422].includes(error.statusCode)) {
+                if (error instanceof CodaAbortError || !this.retryStrategy.shouldRetry(error, attempt, method, options.retrySafe)) {
                     throw error;
                 }
 
-                // Wait before the next attempt (exponential backoff)
-                if (attempt < this.retries) {
-                    await this.sleep(Math.pow(2, attempt) * 1000);
-                }
+                const delay = this.retryStrategy.getDelay(error, attempt);
+                this.retryStrategy.notify({
+                    method,
+                    endpoint,
+                    attempt: attempt + 1,
+                    delay,
+                    error: error as Error,
+                    kind: this.retryStrategy.classify(error)
+                });
+                this.logger?.warn(`Retry ${attempt + 1}/${this.retryStrategy.maxRetries} in ${delay}ms: ${method} ${endpoint}`);
+                await sleep(delay, signal);
             }
         }
+    }
 
-        throw lastError!;
+    /**
+     * User middlewares run first, then the built-in rate limiter and metrics around the HTTP call
+     */
+    private getMiddlewares(): CodaMiddleware[] {
+        const middlewares = [...this.middlewares];
+        if (this.rateLimiter) {
+            middlewares.push(rateLimitMiddleware(this.rateLimiter));
+        }
+        if (this.metrics) {
+            middlewares.push(metricsMiddleware(this.metrics));
+        }
+        return middlewares;
+    }
+
+    /**
+     * Single HTTP attempt, end of the middleware chain
+     */
+    private async send(context: CodaRequestContext): Promise<unknown> {
+        const { method, body, signal, timeout } = context;
+
+        // One controller per attempt, aborted by the caller's signal or the timeout
+        const controller = new AbortController();
+        let timedOut = false;
+        const timer = setTimeout(() => {
+            timedOut = true;
+            controller.abort();
+        }, timeout);
+        const onAbort = () => controller.abort();
+        signal?.addEventListener('abort', onAbort, { once: true });
+
+        const requestOptions: CodaTransportRequest = {
+            method,
+            headers: context.headers,
+            signal: controller.signal
+        };
+
+        if (body && method !== 'GET') {
+            requestOptions.body = JSON.stringify(body);
+        }
+
+        try {
+            const url = this.buildUrl(context.baseUrl, context.endpoint, context.params);
+            const response = await this.transport(url.toString(), requestOptions);
+            return await this.handleResponse(response);
+        } catch (error) {
+            if (timedOut) {
+                throw new CodaTimeoutError(timeout);
+            }
+            if (signal?.aborted || (error as Error)?.name === 'AbortError') {
+                throw new CodaAbortError(signal?.reason);
+            }
+            throw error;
+        } finally {
+            clearTimeout(timer);
+            signal?.removeEventListener('abort', onAbort);
+        }
+    }
+
+    /**
+     * Download a file from a signed link, outside of the API: no token is sent.
+     * The timeout covers the whole download, body included.
+     */
+    private async download(url: string, requestOptions?: CodaRequestOptions): Promise<string> {
+        const signal = requestOptions?.signal;
+        const timeout = requestOptions?.timeout ?? this.timeout;
+        throwIfAborted(signal);
+
+        const controller = new AbortController();
+        let timedOut = false;
+        const timer = setTimeout(() => {
+            timedOut = true;
+            controller.abort();
+        }, timeout);
+        const onAbort = () => controller.abort();
+        signal?.addEventListener('abort', onAbort, { once: true });
+
+        try {
+            const response = await this.transport(url, {
+                method: 'GET',
+                headers: { 'User-Agent': 'coda-typescript-sdk/0.1.0' },
+                signal: controller.signal
+            });
+
+            if (!response.ok) {
+                throw new CodaApiError(`Download failed with HTTP ${response.status}: ${response.statusText}`, response.status);
+            }
+
+            return await response.text();
+        } catch (error) {
+            if (timedOut) {
+                throw new CodaTimeoutError(timeout);
+            }
+            if (signal?.aborted) {
+                throw new CodaAbortError(signal.reason);
+            }
+            throw error;
+        } finally {
+            clearTimeout(timer);
+            signal?.removeEventListener('abort', onAbort);
+        }
+    }
+
+    /**
+     * Build a request URL with its query parameters
+     */
+    private buildUrl(baseUrl: string, endpoint: string, params?: Record<string, any>): URL {
+        const url = new URL(`${baseUrl}${endpoint}`);
+
+        // Add query parameters
+        if (params) {
+            Object.entries(params).forEach(([key, value]) => {
+                if (value !== undefined && value !== null) {
+                    url.searchParams.append(key, String(value));
+                }
+            });
+        }
+
+        return url;
+    }
+
+    /**
+     * Classify a request for the rate limiter: only GET requests are reads
+     */
+    private getRequestType(method: Method): RequestType {
+        return method === 'GET' ? 'read' : 'write';
     }
 
     /**
      * HTTP response handler and error handling
      */
-    private async handleResponse<T>(response: Response): Promise<T> {
+    private async handleResponse<T>(response: CodaTransportResponse): Promise<T> {
 
         if (response.status === 429) {
-            const retryAfter = parseInt(response.headers.get('retry-after') || '60');
-            throw new CodaRateLimitError(retryAfter);
+            throw new CodaRateLimitError(this.parseRetryAfter(response.headers.get('retry-after')));
         }
 
         const contentType = response.headers.get('content-type');
@@ -204,20 +471,138 @@ export class CodaClient {
     }
 
     /**
-     * Utility for waiting
+     * Parse a Retry-After header, given in seconds or as an HTTP date
+     * @returns The delay in seconds, undefined when the header is missing or invalid
+     */
+    private parseRetryAfter(header: string | null): number | undefined {
+        if (!header) {
+            return undefined;
+        }
+
+        const seconds = Number(header);
+        if (!isNaN(seconds)) {
+            return Math.max(0, seconds);
+        }
+
+        const date = Date.parse(header);
+        return isNaN(date) ? undefined : Math.max(0, Math.ceil((date - Date.now()) / 1000));
+    }
+
+    /**
+     * Cache entries affected by a row mutation: the table (rowCount), its rows and row lists,
+     * and the rows of every view, since views of the table are cached under their own ID
+     */
+    private tableInvalidation(docId: string): CacheInvalidation {
+        return { prefixes: [`/docs/${docId}/tables`] };
+    }
+
+    /**
+     * Cache entries affected by a page mutation: every page of the doc, since parents list their children
+     */
+    private pageInvalidation(docId: string): CacheInvalidation {
+        return { prefixes: [`/docs/${docId}/pages`] };
+    }
+
+    /**
+     * Cache entries affected by a sharing change
+     */
+    private aclInvalidation(docId: string): CacheInvalidation {
+        return { prefixes: [`/docs/${docId}/acl`] };
+    }
+
+    /**
+     * Validate the date range of an analytics request and format its dates as `YYYY-MM-DD`
+     */
+    private analyticsParams<P extends CodaAnalyticsDateRange>(params?: P): P | undefined {
+        if (!params) {
+            return params;
+        }
+
+        const errors: string[] = [];
+        const format = (name: string, value?: CodaAnalyticsDate): string | undefined => {
+            if (value === undefined) {
+                return undefined;
+            }
+            if (value instanceof Date) {
+                if (isNaN(value.getTime())) {
+                    errors.push(`${name} is an invalid Date`);
+                    return undefined;
+                }
+                return value.toISOString().slice(0, 10);
+            }
+
+            const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+            const date = match ? new Date(Date.UTC(+match[1], +match[2] - 1, +match[3])) : undefined;
+            if (!date || date.toISOString().slice(0, 10) !== value) {
+                errors.push(`${name} must be a valid date formatted as YYYY-MM-DD, got "${value}"`);
+                return undefined;
+            }
+            return value;
+        };
+
+        const sinceDate = format('sinceDate', params.sinceDate);
+        const untilDate = format('untilDate', params.untilDate);
+        if (sinceDate && untilDate && sinceDate > untilDate) {
+            errors.push(`sinceDate (${sinceDate}) must not be after untilDate (${untilDate})`);
+        }
+
+        if (errors.length > 0) {
+            throw new CodaValidationError(errors);
+        }
+
+        return { ...params, sinceDate, untilDate };
+    }
+
+    /**
+     * Check rows against the schema of their table and the options of the select columns they write, both read uncached
+     * @throws CodaValidationError with the invalid cells
      */
-    private sleep(ms: number): Promise<void> {
-        return new Promise(resolve => setTimeout(resolve, ms));
+    private async validateRows(docId: string, tableId: string, rows: CodaRowRequest[], requestOptions?: CodaRequestOptions): Promise<void> {
+        const schema = await this.getTableSchema(docId, tableId, requestOptions);
+        const selectOptions: Record<string, string[]> = {};
+
+        const written = new Set(rows.flatMap(row => row.cells
+            .filter(cell => cell.value !== null && cell.value !== undefined && cell.value !== '')
+            .map(cell => cell.column)));
+        const selectColumns = schema.columns.filter(column =>
+            column.type === 'select' && !column.calculated && (written.has(column.id) || written.has(column.name)));
+
+        for (const column of selectColumns) {
+            const options: string[] = [];
+            let pageToken: string | undefined;
+            do {
+                const response = await this.request<CodaResponse<CodaSelectOption>>(`/docs/${docId}/tables/${tableId}/columns/${column.id}/selectOptions`, {
+                    params: { pageToken },
+                    cache: false,
+                    ...requestOptions
+                });
+                options.push(...(response.items || []).map(option => option.name));
+                pageToken = response.nextPageToken;
+            } while (pageToken);
+            selectOptions[column.id] = options;
+        }
+
+        DataValidator.assertValidRows(rows, schema, { selectOptions });
     }
 
     //-------------------PUBLIC-METHODS----------------------------------------------------------------------------
 
+    /**
+     * Add a middleware to the request chain, middlewares run in registration order
+     * @param middleware The middleware to add
+     * @returns The client, for chaining
+     */
+    use(middleware: CodaMiddleware): this {
+        this.middlewares.push(middleware);
+        return this;
+    }
+
     /**
      * Get the current user's information
      * @returns The current user's information
      */
-    async whoAmI(): Promise<CodaUser> {
-        return this.request<CodaUser>('/whoami');
+    async whoAmI(requestOptions?: CodaRequestOptions): Promise<CodaUser> {
+        return this.request<CodaUser>('/whoami', { ...requestOptions });
     }
 
     /**
@@ -225,22 +610,39 @@ export class CodaClient {
      * @param params Optional query parameters
      * @returns A list of documents
      */
-    async listDocs(params?: CodaDocListParams): Promise<CodaResponse<CodaDoc>> {
-        return this.request<CodaResponse<CodaDoc>>('/docs', { params });
+    async listDocs(params?: CodaDocListParams, requestOptions?: CodaRequestOptions): Promise<CodaResponse<CodaDoc>> {
+        return this.request<CodaResponse<CodaDoc>>('/docs', { params, ...requestOptions });
     }
 
     /**
      * Get document ID by URL
      * @param docUrl The document URL
      * @returns The document ID
+     * @throws CodaInvalidLinkError if the URL is not a Coda doc link
      */
     getDocIdByUrl(docUrl: string): string {
-        const regex = /\/d\/[^_]+_([^/]+)/;
-        const match = docUrl.match(regex);
-        if (match && match[1]) {
-            return match[1];
+        return parseBrowserLink(docUrl).docId;
+    }
+
+    /**
+     * Resolve any Coda browser link (doc, page, table, row, column) into the API IDs of its target
+     * @throws CodaInvalidLinkError if the link does not point to a supported Coda resource
+     */
+    async resolveBrowserLink(url: string, requestOptions?: CodaRequestOptions): Promise<CodaBrowserLink> {
+        let response: CodaResolveBrowserLinkResponse;
+        try {
+            response = await this.request<CodaResolveBrowserLinkResponse>('/resolveBrowserLink', {
+                params: { url },
+                ...requestOptions
+            });
+        } catch (error) {
+            if (error instanceof CodaApiError && (error.statusCode === 400 || error.statusCode === 404)) {
+                throw new CodaInvalidLinkError(url, error.message, error.details);
+            }
+            throw error;
         }
-        return '';
+
+        return parseApiLink(response.resource.href, url, response.resource.name);
     }
 
     /**
@@ -248,13 +650,13 @@ export class CodaClient {
      * @param docId The document ID
      * @returns The document
      */
-    async getDoc(docId: string): Promise<CodaDoc> {
-        return this.request<CodaDoc>(`/docs/${docId}`);
+    async getDoc(docId: string, requestOptions?: CodaRequestOptions): Promise<CodaDoc> {
+        return this.request<CodaDoc>(`/docs/${docId}`, { ...requestOptions });
     }
 
     /**
      * Create new document
-     * @param name The document name
+     * @param name The document name, sent as the `title` of the doc
      * @param options Optional parameters
      * @returns The created document
      */
@@ -263,61 +665,211 @@ export class CodaClient {
         timezone?: string;
         folderId?: string;
         initialPage?: { name: string; subtitle?: string; iconName?: string; imageUrl?: string };
-    }): Promise<CodaDoc> {
+    }, requestOptions?: CodaRequestOptions): Promise<CodaDoc> {
         const body = {
-            name,
+            title: name,
             ...options
         };
-        return this.request<CodaDoc>('/docs', { method: 'POST', body });
+        return this.request<CodaDoc>('/docs', {
+            method: 'POST',
+            body,
+            invalidate: { paths: ['/docs'] },
+            ...requestOptions
+        });
+    }
+
+    /**
+     * Rename a document or change its icon
+     */
+    async updateDoc(docId: string, update: CodaDocUpdateRequest, requestOptions?: CodaRequestOptions): Promise<void> {
+        await this.request<unknown>(`/docs/${docId}`, {
+            method: 'PATCH',
+            body: update,
+            invalidate: { paths: [`/docs/${docId}`, '/docs'] },
+            // Setting the same title or icon twice has no effect
+            retrySafe: true,
+            ...requestOptions
+        });
     }
 
     /**
      * delete document
      */
-    async deleteDoc(docId: string): Promise<CodaMutationResponse> {
-        return this.request<CodaMutationResponse>(`/docs/${docId}`, { method: 'DELETE' });
+    async deleteDoc(docId: string, requestOptions?: CodaRequestOptions): Promise<CodaMutationResponse> {
+        return this.request<CodaMutationResponse>(`/docs/${docId}`, {
+            method: 'DELETE',
+            invalidate: { prefixes: [`/docs/${docId}`], paths: ['/docs'] },
+            ...requestOptions
+        });
+    }
+
+    /**
+     * Publish a document, or update the settings of an already published document
+     */
+    async publishDoc(docId: string, options: CodaPublishOptions = {}, requestOptions?: CodaRequestOptions): Promise<CodaPublishResponse> {
+        return this.request<CodaPublishResponse>(`/docs/${docId}/publish`, {
+            method: 'PUT',
+            body: options,
+            invalidate: { paths: [`/docs/${docId}`, '/docs'] },
+            ...requestOptions
+        });
+    }
+
+    /**
+     * Unpublish a document
+     */
+    async unpublishDoc(docId: string, requestOptions?: CodaRequestOptions): Promise<CodaPublishResponse> {
+        return this.request<CodaPublishResponse>(`/docs/${docId}/publish`, {
+            method: 'DELETE',
+            invalidate: { paths: [`/docs/${docId}`, '/docs'] },
+            ...requestOptions
+        });
+    }
+
+    /**
+     * List the categories available for published documents
+     */
+    async listCategories(requestOptions?: CodaRequestOptions): Promise<CodaResponse<CodaDocCategory>> {
+        return this.request<CodaResponse<CodaDocCategory>>('/categories', { ...requestOptions });
+    }
+
+    /**
+     * List the folders accessible to the user, optionally within a workspace
+     */
+    async listFolders(params?: CodaFolderListParams, requestOptions?: CodaRequestOptions): Promise<CodaResponse<CodaFolder>> {
+        return this.request<CodaResponse<CodaFolder>>('/folders', { params, ...requestOptions });
+    }
+
+    /**
+     * take a folder by its ID
+     */
+    async getFolder(folderId: string, requestOptions?: CodaRequestOptions): Promise<CodaFolder> {
+        return this.request<CodaFolder>(`/folders/${folderId}`, { ...requestOptions });
+    }
+
+    /**
+     * Create a folder in a workspace
+     */
+    async createFolder(folder: CodaFolderCreateRequest, requestOptions?: CodaRequestOptions): Promise<CodaFolder> {
+        return this.request<CodaFolder>('/folders', {
+            method: 'POST',
+            body: folder,
+            invalidate: { paths: ['/folders'] },
+            ...requestOptions
+        });
+    }
+
+    /**
+     * List the workspaces of the user
+     */
+    async listWorkspaces(params?: CodaWorkspaceListParams, requestOptions?: CodaRequestOptions): Promise<CodaResponse<CodaWorkspace>> {
+        return this.request<CodaResponse<CodaWorkspace>>('/workspaces', { params, ...requestOptions });
+    }
+
+    /**
+     * List the members of a workspace, optionally filtered by role
+     */
+    async listWorkspaceMembers(workspaceId: string, params?: CodaWorkspaceUserListParams, requestOptions?: CodaRequestOptions): Promise<CodaResponse<CodaWorkspaceUser>> {
+        const { includedRoles, ...rest } = params || {};
+        return this.request<CodaResponse<CodaWorkspaceUser>>(`/workspaces/${workspaceId}/users`, {
+            params: { ...rest, included_roles: includedRoles },
+            ...requestOptions
+        });
+    }
+
+    /**
+     * Change the role of a workspace member
+     */
+    async changeUserRole(workspaceId: string, email: string, newRole: CodaWorkspaceRole, requestOptions?: CodaRequestOptions): Promise<CodaWorkspaceRoleChangeResponse> {
+        return this.request<CodaWorkspaceRoleChangeResponse>(`/workspaces/${workspaceId}/users/role`, {
+            method: 'POST',
+            body: { email, newRole },
+            invalidate: { prefixes: [`/workspaces/${workspaceId}/users`] },
+            // Setting the same role twice has no effect
+            retrySafe: true,
+            ...requestOptions
+        });
     }
 
     /**
      * List all tables in a document
      */
-    async listTables(docId: string, params?: CodaTableListParams): Promise<CodaResponse<CodaTable>> {
-        return this.request<CodaResponse<CodaTable>>(`/docs/${docId}/tables`, { params });
+    async listTables(docId: string, params?: CodaTableListParams, requestOptions?: CodaRequestOptions): Promise<CodaResponse<CodaTable>> {
+        return this.request<CodaResponse<CodaTable>>(`/docs/${docId}/tables`, { params, ...requestOptions });
     }
 
     /**
      * take a table by its ID
      */
-    async getTable(docId: string, tableId: string): Promise<CodaTable> {
-        return this.request<CodaTable>(`/docs/${docId}/tables/${tableId}`);
+    async getTable(docId: string, tableId: string, requestOptions?: CodaRequestOptions): Promise<CodaTable> {
+        return this.request<CodaTable>(`/docs/${docId}/tables/${tableId}`, { ...requestOptions });
+    }
+
+    /**
+     * Typed handle on a table, reading and writing `Row` objects instead of cells
+     * @example
+     * const tasks = client.table<TasksRow>(docId, TasksTableId);
+     * await tasks.insert([{ Name: 'Write docs', Done: false }]);
+     */
+    table<Row extends CodaRowValues>(docId: string, tableId: string, options?: TypedTableOptions<Row>): TypedTable<Row> {
+        return new TypedTable<Row>(this, docId, tableId, options);
     }
 
     /**
      * List all columns in a table
      */
-    async listColumns(docId: string, tableId: string, params?: CodaListParams): Promise<CodaResponse<CodaColumn>> {
-        return this.request<CodaResponse<CodaColumn>>(`/docs/${docId}/tables/${tableId}/columns`, { params });
+    async listColumns(docId: string, tableId: string, params?: CodaListParams, requestOptions?: CodaRequestOptions): Promise<CodaResponse<CodaColumn>> {
+        return this.request<CodaResponse<CodaColumn>>(`/docs/${docId}/tables/${tableId}/columns`, { params, ...requestOptions });
+    }
+
+    /**
+     * Normalized schema of a table: columns, formats, display column, calculated flags and a stable hash.
+     * Always read from the API, a cached schema could hide the change it is meant to detect.
+     */
+    async getTableSchema(docId: string, tableId: string, requestOptions?: CodaRequestOptions): Promise<CodaTableSchema> {
+        const table = await this.request<CodaTable>(`/docs/${docId}/tables/${tableId}`, { cache: false, ...requestOptions });
+        const columns: CodaColumn[] = [];
+        let pageToken: string | undefined;
+
+        do {
+            const response = await this.request<CodaResponse<CodaColumn>>(`/docs/${docId}/tables/${tableId}/columns`, {
+                params: { pageToken },
+                cache: false,
+                ...requestOptions
+            });
+            columns.push(...(response.items || []));
+            pageToken = response.nextPageToken;
+        } while (pageToken);
+
+        return normalizeTableSchema(docId, table, columns);
     }
 
     /**
      * take a column by its ID
      */
-    async getColumn(docId: string, tableId: string, columnId: string): Promise<CodaColumn> {
-        return this.request<CodaColumn>(`/docs/${docId}/tables/${tableId}/columns/${columnId}`);
+    async getColumn(docId: string, tableId: string, columnId: string, requestOptions?: CodaRequestOptions): Promise<CodaColumn> {
+        return this.request<CodaColumn>(`/docs/${docId}/tables/${tableId}/columns/${columnId}`, { ...requestOptions });
+    }
+
+    /**
+     * List the options of a select column
+     */
+    async listSelectOptions(docId: string, tableId: string, columnId: string, params?: Pick<CodaListParams, 'limit' | 'pageToken'>, requestOptions?: CodaRequestOptions): Promise<CodaResponse<CodaSelectOption>> {
+        return this.request<CodaResponse<CodaSelectOption>>(`/docs/${docId}/tables/${tableId}/columns/${columnId}/selectOptions`, { params, ...requestOptions });
     }
 
     /**
      * List all rows in a table
      */
-    async listRows(docId: string, tableId: string, params?: CodaRowListParams): Promise<CodaResponse<CodaRow>> {
-        return this.request<CodaResponse<CodaRow>>(`/docs/${docId}/tables/${tableId}/rows`, { params });
+    async listRows(docId: string, tableId: string, params?: CodaRowListParams, requestOptions?: CodaRequestOptions): Promise<CodaResponse<CodaRow>> {
+        return this.request<CodaResponse<CodaRow>>(`/docs/${docId}/tables/${tableId}/rows`, { params, ...requestOptions });
     }
 
     /**
      * take a row by its ID
      */
-    async getRow(docId: string, tableId: string, rowId: string, params?: { useColumnNames?: boolean; valueFormat?: string }): Promise<CodaRow> {
-        return this.request<CodaRow>(`/docs/${docId}/tables/${tableId}/rows/${rowId}`, { params });
+    async getRow(docId: string, tableId: string, rowId: string, params?: { useColumnNames?: boolean; valueFormat?: string }, requestOptions?: CodaRequestOptions): Promise<CodaRow> {
+        return this.request<CodaRow>(`/docs/${docId}/tables/${tableId}/rows/${rowId}`, { params, ...requestOptions });
     }
 
     /**
@@ -326,14 +878,25 @@ export class CodaClient {
     async insertRows(docId: string, tableId: string, rows: CodaRowRequest[], options?: {
         keyColumns?: string[];
         disableParsing?: boolean;
-    }): Promise<CodaMutationResponse> {
+        /** Check the rows against the table schema first, `validateWrites` of the config by default */
+        validate?: boolean;
+    }, requestOptions?: CodaRequestOptions): Promise<CodaMutationResponse> {
+        const { validate = this.validateWrites, ...insertOptions } = options || {};
+        if (validate) {
+            await this.validateRows(docId, tableId, rows, requestOptions);
+        }
+
         const body = {
             rows,
-            ...options
+            ...insertOptions
         };
         return this.request<CodaMutationResponse>(`/docs/${docId}/tables/${tableId}/rows`, {
             method: 'POST',
-            body
+            body,
+            invalidate: this.tableInvalidation(docId),
+            // Upserts on key columns can be replayed without duplicating rows
+            retrySafe: !!insertOptions.keyColumns?.length,
+            ...requestOptions
         });
     }
 
@@ -342,14 +905,23 @@ export class CodaClient {
      */
     async updateRow(docId: string, tableId: string, rowId: string, row: CodaRowRequest, options?: {
         disableParsing?: boolean;
-    }): Promise<CodaMutationResponse> {
+        /** Check the row against the table schema first, `validateWrites` of the config by default */
+        validate?: boolean;
+    }, requestOptions?: CodaRequestOptions): Promise<CodaMutationResponse> {
+        const { validate = this.validateWrites, ...updateOptions } = options || {};
+        if (validate) {
+            await this.validateRows(docId, tableId, [row], requestOptions);
+        }
+
         const body = {
             row,
-            ...options
+            ...updateOptions
         };
         return this.request<CodaMutationResponse>(`/docs/${docId}/tables/${tableId}/rows/${rowId}`, {
             method: 'PUT',
-            body
+            body,
+            invalidate: this.tableInvalidation(docId),
+            ...requestOptions
         });
     }
 
@@ -360,28 +932,415 @@ export class CodaClient {
      * @param rowId The row ID
      * @returns The mutation response
      */
-    async deleteRow(docId: string, tableId: string, rowId: string): Promise<CodaMutationResponse> {
+    async deleteRow(docId: string, tableId: string, rowId: string, requestOptions?: CodaRequestOptions): Promise<CodaMutationResponse> {
         return this.request<CodaMutationResponse>(`/docs/${docId}/tables/${tableId}/rows/${rowId}`, {
-            method: 'DELETE'
+            method: 'DELETE',
+            invalidate: this.tableInvalidation(docId),
+            ...requestOptions
         });
     }
 
     /**
      * Delete multiple rows
      */
-    async deleteRows(docId: string, tableId: string, rowIds: string[]): Promise<CodaMutationResponse> {
+    async deleteRows(docId: string, tableId: string, rowIds: string[], requestOptions?: CodaRequestOptions): Promise<CodaMutationResponse> {
         const body = { rowIds };
         return this.request<CodaMutationResponse>(`/docs/${docId}/tables/${tableId}/rows`, {
             method: 'DELETE',
-            body
+            body,
+            invalidate: this.tableInvalidation(docId),
+            ...requestOptions
+        });
+    }
+
+    /**
+     * List the views of a document, with their layout, filter and sorts
+     */
+    async listViews(docId: string, params?: CodaViewListParams, requestOptions?: CodaRequestOptions): Promise<CodaResponse<CodaView>> {
+        return this.request<CodaResponse<CodaView>>(`/docs/${docId}/tables`, {
+            params: { ...params, tableTypes: 'view' },
+            ...requestOptions
+        });
+    }
+
+    /**
+     * take a view by its ID or name
+     * @throws CodaValidationError if the ID is the one of a table
+     */
+    async getView(docId: string, viewIdOrName: string, requestOptions?: CodaRequestOptions): Promise<CodaView> {
+        const view = await this.request<CodaTable>(`/docs/${docId}/tables/${encodeURIComponent(viewIdOrName)}`, { ...requestOptions });
+        if (view.tableType !== 'view') {
+            throw new CodaValidationError([`"${view.name}" is a table, not a view`]);
+        }
+        return view as CodaView;
+    }
+
+    /**
+     * List the rows of a view, filtered and sorted as the view shows them
+     */
+    async listViewRows(docId: string, viewId: string, params?: CodaRowListParams, requestOptions?: CodaRequestOptions): Promise<CodaResponse<CodaRow>> {
+        return this.request<CodaResponse<CodaRow>>(`/docs/${docId}/tables/${viewId}/rows`, { params, ...requestOptions });
+    }
+
+    /**
+     * Update a row through a view, only the columns visible in the view can be set
+     */
+    async updateViewRow(docId: string, viewId: string, rowId: string, row: CodaRowRequest, options?: {
+        disableParsing?: boolean;
+    }, requestOptions?: CodaRequestOptions): Promise<CodaMutationResponse> {
+        return this.request<CodaMutationResponse>(`/docs/${docId}/tables/${viewId}/rows/${rowId}`, {
+            method: 'PUT',
+            body: { row, ...options },
+            invalidate: this.tableInvalidation(docId),
+            ...requestOptions
+        });
+    }
+
+    /**
+     * Delete a row through a view, which removes it from the parent table
+     */
+    async deleteViewRow(docId: string, viewId: string, rowId: string, requestOptions?: CodaRequestOptions): Promise<CodaMutationResponse> {
+        return this.request<CodaMutationResponse>(`/docs/${docId}/tables/${viewId}/rows/${rowId}`, {
+            method: 'DELETE',
+            invalidate: this.tableInvalidation(docId),
+            ...requestOptions
+        });
+    }
+
+    /**
+     * Press a button column on a row
+     * @param docId The document ID
+     * @param tableId The table ID
+     * @param rowId The row ID or name
+     * @param columnId The button column ID or name
+     * @param options `validateColumn: false` skips the check that the column is a button
+     * @returns The mutation response
+     */
+    async pushButton(docId: string, tableId: string, rowId: string, columnId: string, options?: {
+        validateColumn?: boolean;
+    }, requestOptions?: CodaRequestOptions): Promise<CodaPushButtonResponse> {
+        if (options?.validateColumn !== false) {
+            const column = await this.getColumn(docId, tableId, columnId, requestOptions);
+            if (column.format?.type !== 'button') {
+                throw new CodaValidationError([
+                    `Column "${column.name}" is of type "${column.format?.type}", not a button`
+                ]);
+            }
+        }
+
+        const path = `/docs/${docId}/tables/${tableId}/rows/${encodeURIComponent(rowId)}/buttons/${encodeURIComponent(columnId)}`;
+        return this.request<CodaPushButtonResponse>(path, {
+            method: 'POST',
+            invalidate: this.tableInvalidation(docId),
+            ...requestOptions
+        });
+    }
+
+    /**
+     * Trigger a "webhook invoked" automation rule
+     * @param docId The document ID
+     * @param ruleId The automation rule ID
+     * @param payload JSON payload available to the rule
+     * @param options `waitForCompletion` polls the mutation status until the rule has run
+     * @returns The request ID, and the final status when waiting
+     */
+    async triggerAutomation(docId: string, ruleId: string, payload: unknown = {}, options?: {
+        waitForCompletion?: boolean;
+        maxWaitTime?: number;
+        pollInterval?: number;
+    }, requestOptions?: CodaRequestOptions): Promise<CodaAutomationTriggerResponse> {
+        const response = await this.request<CodaAutomationTriggerResponse>(`/docs/${docId}/hooks/automation/${encodeURIComponent(ruleId)}`, {
+            method: 'POST',
+            body: payload,
+            // The rule can modify anything in the doc
+            invalidate: { prefixes: [`/docs/${docId}`] },
+            ...requestOptions
+        });
+
+        if (!options?.waitForCompletion) {
+            return response;
+        }
+
+        const { maxWaitTime, pollInterval } = options;
+        const status = await this.waitForMutation(response.requestId, { maxWaitTime, pollInterval }, requestOptions);
+        return { requestId: response.requestId, status };
+    }
+
+    /**
+     * List all pages in a document
+     */
+    async listPages(docId: string, params?: CodaListParams, requestOptions?: CodaRequestOptions): Promise<CodaResponse<CodaPage>> {
+        return this.request<CodaResponse<CodaPage>>(`/docs/${docId}/pages`, { params, ...requestOptions });
+    }
+
+    /**
+     * take a page by its ID or name
+     */
+    async getPage(docId: string, pageIdOrName: string, requestOptions?: CodaRequestOptions): Promise<CodaPage> {
+        return this.request<CodaPage>(`/docs/${docId}/pages/${encodeURIComponent(pageIdOrName)}`, { ...requestOptions });
+    }
+
+    /**
+     * Create a new page, under `parentPageId` if given
+     * @param docId The document ID
+     * @param page The page name, subtitle, icon, image and initial canvas content
+     * @returns The mutation request ID and the ID of the created page
+     */
+    async createPage(docId: string, page: CodaPageCreateRequest, requestOptions?: CodaRequestOptions): Promise<CodaPageMutationResponse> {
+        return this.request<CodaPageMutationResponse>(`/docs/${docId}/pages`, {
+            method: 'POST',
+            body: page,
+            invalidate: this.pageInvalidation(docId),
+            ...requestOptions
+        });
+    }
+
+    /**
+     * Update a page's metadata or append/replace its canvas content
+     */
+    async updatePage(docId: string, pageIdOrName: string, update: CodaPageUpdateRequest, requestOptions?: CodaRequestOptions): Promise<CodaPageMutationResponse> {
+        return this.request<CodaPageMutationResponse>(`/docs/${docId}/pages/${encodeURIComponent(pageIdOrName)}`, {
+            method: 'PUT',
+            body: update,
+            invalidate: this.pageInvalidation(docId),
+            ...requestOptions
+        });
+    }
+
+    /**
+     * Delete a page
+     */
+    async deletePage(docId: string, pageIdOrName: string, requestOptions?: CodaRequestOptions): Promise<CodaPageMutationResponse> {
+        return this.request<CodaPageMutationResponse>(`/docs/${docId}/pages/${encodeURIComponent(pageIdOrName)}`, {
+            method: 'DELETE',
+            invalidate: this.pageInvalidation(docId),
+            ...requestOptions
+        });
+    }
+
+    /**
+     * Start an asynchronous export of a page content
+     * @returns The export request, to poll with getPageExportStatus
+     */
+    async beginPageExport(docId: string, pageIdOrName: string, format: CodaPageExportFormat, requestOptions?: CodaRequestOptions): Promise<CodaPageExportResponse> {
+        return this.request<CodaPageExportResponse>(`/docs/${docId}/pages/${encodeURIComponent(pageIdOrName)}/export`, {
+            method: 'POST',
+            body: { outputFormat: format },
+            // Starting the same export twice is harmless
+            retrySafe: true,
+            ...requestOptions
+        });
+    }
+
+    /**
+     * Status of a page export, with its download link once complete
+     */
+    async getPageExportStatus(docId: string, pageIdOrName: string, requestId: string, requestOptions?: CodaRequestOptions): Promise<CodaPageExportStatus> {
+        return this.request<CodaPageExportStatus>(`/docs/${docId}/pages/${encodeURIComponent(pageIdOrName)}/export/${requestId}`, {
+            cache: false,
+            ...requestOptions
+        });
+    }
+
+    /**
+     * Export a page content as HTML or Markdown: starts the export, waits for it and downloads the result
+     * @returns The exported content
+     */
+    async exportPage(docId: string, pageIdOrName: string, options: CodaPageExportOptions, requestOptions?: CodaRequestOptions): Promise<string> {
+        const maxWaitTime = options.maxWaitTime || 60000; // 1 minute
+        const pollInterval = options.pollInterval || 1000; // 1 seconde
+        const startTime = Date.now();
+
+        const exportRequest = await this.beginPageExport(docId, pageIdOrName, options.format, requestOptions);
+
+        while (Date.now() - startTime < maxWaitTime) {
+            const status = await this.getPageExportStatus(docId, pageIdOrName, exportRequest.id, requestOptions);
+
+            if (status.status === 'complete' && status.downloadLink) {
+                return this.download(status.downloadLink, requestOptions);
+            }
+
+            if (status.status === 'failed') {
+                throw new CodaApiError(`Page export failed: ${status.error || 'unknown error'}`, 500, status);
+            }
+
+            await sleep(pollInterval, requestOptions?.signal);
+        }
+
+        throw new CodaApiError('Timeout waiting for the page export', 408);
+    }
+
+    /**
+     * Export a page content and write it to a file
+     * @returns The path of the written file
+     */
+    async exportPageToFile(docId: string, pageIdOrName: string, filePath: string, options: CodaPageExportOptions, requestOptions?: CodaRequestOptions): Promise<string> {
+        const content = await this.exportPage(docId, pageIdOrName, options, requestOptions);
+        await fs.writeFile(filePath, content, 'utf8');
+        return filePath;
+    }
+
+    /**
+     * List all named formulas in a document
+     */
+    async listFormulas(docId: string, params?: CodaListParams, requestOptions?: CodaRequestOptions): Promise<CodaResponse<CodaFormulaReference>> {
+        return this.request<CodaResponse<CodaFormulaReference>>(`/docs/${docId}/formulas`, { params, ...requestOptions });
+    }
+
+    /**
+     * take a named formula, with its current value, by its ID or name
+     */
+    async getFormula(docId: string, formulaIdOrName: string, requestOptions?: CodaRequestOptions): Promise<CodaFormula> {
+        return this.request<CodaFormula>(`/docs/${docId}/formulas/${encodeURIComponent(formulaIdOrName)}`, { ...requestOptions });
+    }
+
+    /**
+     * Current value of a named formula, resolved by its exact name
+     * @param docId The document ID
+     * @param name The formula name, as shown in the doc
+     * @returns The formula value
+     */
+    async getFormulaValue<T = any>(docId: string, name: string, requestOptions?: CodaRequestOptions): Promise<T> {
+        let pageToken: string | undefined;
+
+        do {
+            const response = await this.listFormulas(docId, { pageToken }, requestOptions);
+            const formula = response.items?.find(item => item.name === name);
+            if (formula) {
+                return (await this.getFormula(docId, formula.id, requestOptions)).value as T;
+            }
+            pageToken = response.nextPageToken;
+        } while (pageToken);
+
+        throw new CodaApiError(`Formula "${name}" not found in doc ${docId}`, 404);
+    }
+
+    /**
+     * List all controls in a document
+     */
+    async listControls(docId: string, params?: CodaListParams, requestOptions?: CodaRequestOptions): Promise<CodaResponse<CodaControlReference>> {
+        return this.request<CodaResponse<CodaControlReference>>(`/docs/${docId}/controls`, { params, ...requestOptions });
+    }
+
+    /**
+     * take a control, with its type and current value, by its ID or name
+     */
+    async getControl(docId: string, controlIdOrName: string, requestOptions?: CodaRequestOptions): Promise<CodaControl> {
+        return this.request<CodaControl>(`/docs/${docId}/controls/${encodeURIComponent(controlIdOrName)}`, { ...requestOptions });
+    }
+
+    /**
+     * List the sharing permissions of a document
+     */
+    async listPermissions(docId: string, params?: Pick<CodaListParams, 'limit' | 'pageToken'>, requestOptions?: CodaRequestOptions): Promise<CodaResponse<CodaPermission>> {
+        return this.request<CodaResponse<CodaPermission>>(`/docs/${docId}/acl/permissions`, { params, ...requestOptions });
+    }
+
+    /**
+     * Share a document with an email, a domain or anyone
+     * @param docId The document ID
+     * @param principal Who gets the access
+     * @param access The access level
+     * @param options `suppressEmail` avoids the notification email
+     */
+    async addPermission(docId: string, principal: CodaPrincipal, access: CodaAccessType, options?: {
+        suppressEmail?: boolean;
+    }, requestOptions?: CodaRequestOptions): Promise<void> {
+        await this.request<unknown>(`/docs/${docId}/acl/permissions`, {
+            method: 'POST',
+            body: { principal, access, ...options },
+            invalidate: this.aclInvalidation(docId),
+            // Granting the same access twice has no effect
+            retrySafe: true,
+            ...requestOptions
+        });
+    }
+
+    /**
+     * Remove a sharing permission from a document
+     */
+    async deletePermission(docId: string, permissionId: string, requestOptions?: CodaRequestOptions): Promise<void> {
+        await this.request<unknown>(`/docs/${docId}/acl/permissions/${permissionId}`, {
+            method: 'DELETE',
+            invalidate: this.aclInvalidation(docId),
+            ...requestOptions
+        });
+    }
+
+    /**
+     * Sharing capabilities of the current user on a document
+     */
+    async getAclMetadata(docId: string, requestOptions?: CodaRequestOptions): Promise<CodaAclMetadata> {
+        return this.request<CodaAclMetadata>(`/docs/${docId}/acl/metadata`, { ...requestOptions });
+    }
+
+    /**
+     * Sharing settings of a document
+     */
+    async getAclSettings(docId: string, requestOptions?: CodaRequestOptions): Promise<CodaAclSettings> {
+        return this.request<CodaAclSettings>(`/docs/${docId}/acl/settings`, { ...requestOptions });
+    }
+
+    /**
+     * Search users and groups a document can be shared with
+     */
+    async searchPrincipals(docId: string, query: string, requestOptions?: CodaRequestOptions): Promise<CodaPrincipalSearchResult> {
+        return this.request<CodaPrincipalSearchResult>(`/docs/${docId}/acl/principals/search`, {
+            params: { query },
+            ...requestOptions
+        });
+    }
+
+    /**
+     * Views, copies, likes and sessions of the docs over a date range
+     * @throws CodaValidationError if the date range is invalid
+     */
+    async listDocAnalytics(params?: CodaDocAnalyticsParams, requestOptions?: CodaRequestOptions): Promise<CodaResponse<CodaDocAnalyticsItem>> {
+        return this.request<CodaResponse<CodaDocAnalyticsItem>>('/analytics/docs', {
+            params: this.analyticsParams(params),
+            ...requestOptions
+        });
+    }
+
+    /**
+     * Views, sessions and users of each page of a doc over a date range
+     * @throws CodaValidationError if the date range is invalid
+     */
+    async listPageAnalytics(docId: string, params?: CodaPageAnalyticsParams, requestOptions?: CodaRequestOptions): Promise<CodaResponse<CodaPageAnalyticsItem>> {
+        return this.request<CodaResponse<CodaPageAnalyticsItem>>(`/analytics/docs/${docId}/pages`, {
+            params: this.analyticsParams(params),
+            ...requestOptions
+        });
+    }
+
+    /**
+     * Totals of the doc analytics over a date range
+     * @throws CodaValidationError if the date range is invalid
+     */
+    async getDocAnalyticsSummary(params?: CodaDocAnalyticsSummaryParams, requestOptions?: CodaRequestOptions): Promise<CodaDocAnalyticsSummary> {
+        return this.request<CodaDocAnalyticsSummary>('/analytics/docs/summary', {
+            params: this.analyticsParams(params),
+            ...requestOptions
+        });
+    }
+
+    /**
+     * Installs and invocations of the packs over a date range
+     * @throws CodaValidationError if the date range is invalid
+     */
+    async listPackAnalytics(params?: CodaPackAnalyticsParams, requestOptions?: CodaRequestOptions): Promise<CodaResponse<CodaPackAnalyticsItem>> {
+        return this.request<CodaResponse<CodaPackAnalyticsItem>>('/analytics/packs', {
+            params: this.analyticsParams(params),
+            ...requestOptions
         });
     }
 
     /**
      * Status of a mutation
      */
-    async getMutationStatus(requestId: string): Promise<CodaMutationStatus> {
-        return this.request<CodaMutationStatus>(`/mutationStatus/${requestId}`);
+    async getMutationStatus(requestId: string, requestOptions?: CodaRequestOptions): Promise<CodaMutationStatus> {
+        // Never cached: waitForMutation polls this endpoint
+        return this.request<CodaMutationStatus>(`/mutationStatus/${requestId}`, { cache: false, ...requestOptions });
     }
 
     /**
@@ -390,19 +1349,19 @@ export class CodaClient {
     async waitForMutation(requestId: string, options?: {
         maxWaitTime?: number;
         pollInterval?: number;
-    }): Promise<CodaMutationStatus> {
+    }, requestOptions?: CodaRequestOptions): Promise<CodaMutationStatus> {
         const maxWaitTime = options?.maxWaitTime || 30000; // 30 secondes
         const pollInterval = options?.pollInterval || 1000; // 1 seconde
         const startTime = Date.now();
 
         while (Date.now() - startTime < maxWaitTime) {
-            const status = await this.getMutationStatus(requestId);
+            const status = await this.getMutationStatus(requestId, requestOptions);
 
             if (status.status === 'complete' || status.status === 'failed') {
                 return status;
             }
 
-            await this.sleep(pollInterval);
+            await sleep(pollInterval, requestOptions?.signal);
         }
 
         throw new CodaApiError('Timeout en attendant la completion de la mutation', 408);
@@ -412,7 +1371,26 @@ export class CodaClient {
         return this.metrics?.getStats() || {};
     }
 
-    async getDetailedStats(): Promise<any> {
-        return this.metrics?.getDetailedStats();
+    async getDetailedStats(): Promise<ClientDetailedStats> {
+        return {
+            metrics: this.metrics?.getDetailedStats(),
+            cache: await this.cache?.getStats(),
+            rateLimiter: this.rateLimiter?.getStats()
+        };
+    }
+
+    /**
+     * Drop every cached response
+     */
+    async clearCache(): Promise<void> {
+        await this.cache?.clear();
+    }
+
+    /**
+     * Drop cached responses under an API path, e.g. `/docs/{docId}/tables/{tableId}`
+     * @returns The number of removed entries
+     */
+    async invalidateCache(prefix: string): Promise<number> {
+        return (await this.cache?.invalidatePrefix(prefix)) || 0;
     }
 }
\ No newline at end of file
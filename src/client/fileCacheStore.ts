@@ -0,0 +1,104 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import {CacheEntry, CacheStore} from "./cacheStore";
+
+/**
+ * JSON file store, keeps the cache warm between runs of CLI tools and cron jobs.
+ * The whole file is loaded on first access and rewritten after every change.
+ */
+export class FileCacheStore implements CacheStore {
+    private entries?: Map<string, CacheEntry>;
+    private loading?: Promise<Map<string, CacheEntry>>;
+    private writing: Promise<void> = Promise.resolve();
+
+    constructor(private readonly filePath: string) {}
+
+    async get(key: string): Promise<CacheEntry | undefined> {
+        const entries = await this.load();
+        return entries.get(key);
+    }
+
+    async set(key: string, entry: CacheEntry): Promise<void> {
+        const entries = await this.load();
+        entries.set(key, entry);
+        await this.persist();
+    }
+
+    async delete(key: string): Promise<boolean> {
+        const entries = await this.load();
+        const deleted = entries.delete(key);
+        if (deleted) {
+            await this.persist();
+        }
+        return deleted;
+    }
+
+    /**
+     * Delete entries with a single rewrite of the file
+     */
+    async deleteMany(keys: string[]): Promise<number> {
+        const entries = await this.load();
+        const removed = keys.filter(key => entries.delete(key)).length;
+        if (removed > 0) {
+            await this.persist();
+        }
+        return removed;
+    }
+
+    async keys(): Promise<string[]> {
+        const entries = await this.load();
+        return Array.from(entries.keys());
+    }
+
+    async clear(): Promise<void> {
+        const entries = await this.load();
+        entries.clear();
+        await this.persist();
+    }
+
+    async size(): Promise<number> {
+        const entries = await this.load();
+        return entries.size;
+    }
+
+    private load(): Promise<Map<string, CacheEntry>> {
+        if (this.entries) {
+            return Promise.resolve(this.entries);
+        }
+
+        if (!this.loading) {
+            this.loading = this.readFile().then(entries => {
+                this.entries = entries;
+                return entries;
+            });
+        }
+
+        return this.loading;
+    }
+
+    private async readFile(): Promise<Map<string, CacheEntry>> {
+        try {
+            const content = await fs.readFile(this.filePath, 'utf8');
+            return new Map(Object.entries(JSON.parse(content) as Record<string, CacheEntry>));
+        } catch (error) {
+            // Missing or corrupted file: start with an empty cache
+            if ((error as NodeJS.ErrnoException).code !== 'ENOENT' && !(error instanceof SyntaxError)) {
+                throw error;
+            }
+            return new Map();
+        }
+    }
+
+    /**
+     * Writes are chained so concurrent changes never interleave in the file
+     */
+    private persist(): Promise<void> {
+        this.writing = this.writing
+            .catch(() => undefined)
+            .then(async () => {
+                await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+                await fs.writeFile(this.filePath, JSON.stringify(Object.fromEntries(this.entries!)), 'utf8');
+            });
+        return this.writing;
+    }
+}
@@ -1,4 +1,10 @@
 export * from './codaClient';
 export * from './rateLimiter';
 export * from './cache';
-export * from './metrics';
\ No newline at end of file
+export * from './metrics';
+export * from './cacheStore';
+export * from './fileCacheStore';
+export * from './retryPolicy';
+export * from './middleware';
+export * from './transport';
+export * from './typedTable';
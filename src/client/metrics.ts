@@ -1,4 +1,4 @@
-import {RequestMetrics} from "../types";
+import {DetailedRequestMetrics, RequestMetrics} from "../types";
 
 export class MetricsCollector {
     private metrics: RequestMetrics = {
@@ -42,6 +42,13 @@ export class MetricsCollector {
         this.metrics.avgResponseTime = this.responseTimes.reduce((a, b) => a + b, 0) / this.responseTimes.length;
     }
 
+    /**
+     * Share of requests that succeeded, cache hits included
+     */
+    static successRate(metrics: RequestMetrics): number {
+        return metrics.totalRequests > 0 ? (metrics.successfulRequests + metrics.cacheHits) / metrics.totalRequests : 0;
+    }
+
     recordRateLimit(): void {
         this.metrics.rateLimitHits++;
     }
@@ -50,11 +57,11 @@ export class MetricsCollector {
         return { ...this.metrics };
     }
 
-    getDetailedStats() {
+    getDetailedStats(): DetailedRequestMetrics {
         const stats = this.getStats();
         return {
             ...stats,
-            successRate: stats.totalRequests > 0 ? stats.successfulRequests / stats.totalRequests : 0,
+            successRate: MetricsCollector.successRate(stats),
             errorRate: stats.totalRequests > 0 ? stats.failedRequests / stats.totalRequests : 0,
             cacheHitRate: stats.totalRequests > 0 ? stats.cacheHits / stats.totalRequests : 0,
             recentResponseTimes: [...this.responseTimes].slice(-10) // 10 derniers temps
@@ -0,0 +1,91 @@
+import {CodaRateLimitError, Method, RequestType} from "../types";
+import {RateLimiter} from "./rateLimiter";
+import {MetricsCollector} from "./metrics";
+
+/**
+ * Request seen by middlewares, once per HTTP attempt.
+ * Every field can be modified before calling `next()`.
+ */
+export interface CodaRequestContext {
+    method: Method;
+    /** Base URL of the API, rewrite it to go through a proxy */
+    baseUrl: string;
+    /** API path, e.g. `/docs/{docId}/tables` */
+    endpoint: string;
+    params?: Record<string, any>;
+    body?: any;
+    headers: Record<string, string>;
+    /** Attempt number, 0 for the first try and incremented on each retry */
+    attempt: number;
+    /** Rate limit bucket of the request */
+    type: RequestType;
+    timeout: number;
+    signal?: AbortSignal;
+    /** Free-form storage shared by middlewares during an attempt */
+    state: Record<string, any>;
+}
+
+export type CodaNext = () => Promise<unknown>;
+
+/**
+ * A middleware calls `next()` to continue the chain and can transform its result,
+ * catch its error, or return a response without calling it to short-circuit the request.
+ */
+export type CodaMiddleware = (context: CodaRequestContext, next: CodaNext) => Promise<unknown>;
+
+/**
+ * Chain middlewares around a final handler, the first middleware being the outermost
+ */
+export function composeMiddlewares(
+    middlewares: CodaMiddleware[],
+    handler: (context: CodaRequestContext) => Promise<unknown>
+): (context: CodaRequestContext) => Promise<unknown> {
+    return (context: CodaRequestContext) => {
+        const dispatch = (index: number): Promise<unknown> => {
+            if (index === middlewares.length) {
+                return handler(context);
+            }
+
+            let called = false;
+            return middlewares[index](context, () => {
+                if (called) {
+                    return Promise.reject(new Error('next() called multiple times'));
+                }
+                called = true;
+                return dispatch(index + 1);
+            });
+        };
+
+        return dispatch(0);
+    };
+}
+
+/**
+ * Built-in middleware waiting for a rate limit slot before each attempt
+ */
+export function rateLimitMiddleware(rateLimiter: RateLimiter): CodaMiddleware {
+    return async (context, next) => {
+        await rateLimiter.waitForSlot(context.type, context.signal);
+        return next();
+    };
+}
+
+/**
+ * Built-in middleware recording the duration and outcome of each attempt
+ */
+export function metricsMiddleware(metrics: MetricsCollector): CodaMiddleware {
+    return async (context, next) => {
+        const startTime = Date.now();
+        try {
+            const result = await next();
+            metrics.recordRequest(Date.now() - startTime, true);
+            return result;
+        } catch (error) {
+            metrics.recordRequest(Date.now() - startTime, false);
+            if (error instanceof CodaRateLimitError) {
+                metrics.recordRateLimit();
+            }
+            throw error;
+        }
+    };
+}
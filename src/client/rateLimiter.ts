@@ -1,33 +1,36 @@
+import {RateLimiterStats, RequestType} from "../types";
+import {sleep} from "../utils/abort";
+
 export class RateLimiter {
-    private requests: { timestamp: number; type: 'read' | 'write' }[] = [];
+    private requests: { timestamp: number; type: RequestType }[] = [];
 
-    async waitForSlot(type: 'read' | 'write'): Promise<void> {
-        const now = Date.now();
+    async waitForSlot(type: RequestType, signal?: AbortSignal): Promise<void> {
         const window = 6000; // 6 seconds
         const limits = { read: 100, write: 10 };
 
-        // Clear expired requests
-        this.requests = this.requests.filter(req =>
-            now - req.timestamp < window
-        );
+        // Concurrent callers wake up together, so the window is checked again after each wait
+        for (;;) {
+            const now = Date.now();
 
-        const typeRequests = this.requests.filter(req => req.type === type);
+            // Clear expired requests
+            this.requests = this.requests.filter(req =>
+                now - req.timestamp < window
+            );
 
-        if (typeRequests.length >= limits[type]) {
-            const oldestRequest = typeRequests[0];
-            const waitTime = window - (now - oldestRequest.timestamp);
-            await this.sleep(waitTime);
-        }
+            const typeRequests = this.requests.filter(req => req.type === type);
 
-        this.requests.push({ timestamp: now, type });
-    }
+            if (typeRequests.length < limits[type]) {
+                this.requests.push({ timestamp: now, type });
+                return;
+            }
 
-    private sleep(ms: number): Promise<void> {
-        return new Promise(resolve => setTimeout(resolve, ms));
+            const oldestRequest = typeRequests[0];
+            await sleep(window - (now - oldestRequest.timestamp), signal);
+        }
     }
 
     // Stats
-    getStats() {
+    getStats(): RateLimiterStats {
         const now = Date.now();
         const window = 6000;
 
@@ -0,0 +1,148 @@
+import {CodaApiError, CodaRateLimitError, CodaTimeoutError, Method} from "../types";
+
+export type RetryErrorKind = 'status' | 'rateLimit' | 'timeout' | 'network';
+
+export interface RetryContext {
+    method: Method;
+    endpoint: string;
+    /** Number of the retry about to happen, starting at 1 */
+    attempt: number;
+    /** Delay before the retry in milliseconds */
+    delay: number;
+    error: Error;
+    kind: RetryErrorKind;
+}
+
+export interface RetryPolicy {
+    /** Maximum number of retries, `retries` from the client config by default */
+    maxRetries?: number;
+    /** HTTP status codes that can be retried */
+    retryOnStatus?: number[];
+    /** Retry requests that timed out */
+    retryOnTimeout?: boolean;
+    /** Retry connection errors (DNS, reset socket…) */
+    retryOnNetworkError?: boolean;
+    /**
+     * Methods retried automatically. POST is not idempotent and is only retried
+     * when the call is marked safe. A 429 is retried for every method since Coda rejected the request.
+     */
+    retryMethods?: Method[];
+    /** Base delay of the exponential backoff in milliseconds */
+    baseDelay?: number;
+    /** Upper bound of the backoff delay in milliseconds, Retry-After delays included */
+    maxDelay?: number;
+    /** Randomize delays so that concurrent clients do not retry in sync */
+    jitter?: boolean;
+    /**
+     * Wait for the Retry-After delay sent with a 429 instead of the backoff, capped by `maxDelay`.
+     * A 429 without Retry-After uses the backoff.
+     */
+    respectRetryAfter?: boolean;
+    onRetry?: (context: RetryContext) => void;
+}
+
+export const DEFAULT_RETRY_POLICY: Required<Omit<RetryPolicy, 'onRetry'>> = {
+    maxRetries: 3,
+    retryOnStatus: [408, 429, 500, 502, 503, 504],
+    retryOnTimeout: true,
+    retryOnNetworkError: true,
+    retryMethods: ['GET', 'PUT', 'DELETE'],
+    baseDelay: 1000,
+    maxDelay: 30000,
+    jitter: true,
+    respectRetryAfter: true
+};
+
+/**
+ * Decides whether a failed request is retried and how long to wait before
+ */
+export class RetryStrategy {
+    private readonly policy: Required<Omit<RetryPolicy, 'onRetry'>> & Pick<RetryPolicy, 'onRetry'>;
+
+    constructor(policy?: RetryPolicy, retries?: number) {
+        this.policy = {
+            ...DEFAULT_RETRY_POLICY,
+            maxRetries: retries ?? DEFAULT_RETRY_POLICY.maxRetries,
+            ...policy
+        };
+    }
+
+    get maxRetries(): number {
+        return this.policy.maxRetries;
+    }
+
+    /**
+     * @param error The error of the last attempt
+     * @param attempt Number of retries already done
+     * @param method HTTP method of the request
+     * @param safe The request can be replayed even if its method is not in `retryMethods`
+     */
+    shouldRetry(error: unknown, attempt: number, method: Method, safe: boolean = false): boolean {
+        if (attempt >= this.policy.maxRetries) {
+            return false;
+        }
+
+        const kind = this.classify(error);
+        if (kind === 'rateLimit') {
+            return this.policy.retryOnStatus.includes(429);
+        }
+
+        if (!safe && !this.policy.retryMethods.includes(method)) {
+            return false;
+        }
+
+        switch (kind) {
+            case 'status':
+                return this.policy.retryOnStatus.includes((error as CodaApiError).statusCode);
+            case 'timeout':
+                return this.policy.retryOnTimeout;
+            case 'network':
+                return this.policy.retryOnNetworkError;
+        }
+    }
+
+    /**
+     * Delay before the next retry
+     * @param error The error of the last attempt
+     * @param attempt Number of retries already done
+     */
+    getDelay(error: unknown, attempt: number): number {
+        if (error instanceof CodaRateLimitError && this.policy.respectRetryAfter && error.retryAfter !== undefined) {
+            return Math.min(Math.max(0, error.retryAfter) * 1000, this.policy.maxDelay);
+        }
+
+        const delay = Math.min(this.policy.baseDelay * Math.pow(2, attempt), this.policy.maxDelay);
+        if (!this.policy.jitter) {
+            return delay;
+        }
+
+        // Equal jitter: keep half of the delay, randomize the other half
+        return Math.round(delay / 2 + Math.random() * delay / 2);
+    }
+
+    notify(context: RetryContext): void {
+        this.policy.onRetry?.(context);
+    }
+
+    classify(error: unknown): RetryErrorKind {
+        if (error instanceof CodaRateLimitError) {
+            return 'rateLimit';
+        }
+        if (this.isTimeout(error)) {
+            return 'timeout';
+        }
+        if (error instanceof CodaApiError) {
+            return 'status';
+        }
+        return 'network';
+    }
+
+    private isTimeout(error: unknown): boolean {
+        if (error instanceof CodaTimeoutError) {
+            return true;
+        }
+        const err = error as { name?: string; type?: string };
+        // Timeouts raised by the transport itself, e.g. node-fetch "request-timeout"
+        return err?.type === 'request-timeout' || err?.name === 'TimeoutError';
+    }
+}
@@ -0,0 +1,37 @@
+import nodeFetch from 'node-fetch';
+import {Method} from "../types";
+
+export interface CodaTransportRequest {
+    method: Method;
+    headers: Record<string, string>;
+    body?: string;
+    signal?: AbortSignal;
+}
+
+/**
+ * Subset of the fetch Response used by the client
+ */
+export interface CodaTransportResponse {
+    ok: boolean;
+    status: number;
+    statusText: string;
+    headers: { get(name: string): string | null };
+    json(): Promise<any>;
+    text(): Promise<string>;
+}
+
+/**
+ * Any fetch-compatible function: global fetch, undici with a ProxyAgent, node-fetch, a recording fake…
+ */
+export type CodaTransport = (url: string, init: CodaTransportRequest) => Promise<CodaTransportResponse>;
+
+/**
+ * Global fetch when the runtime provides it (Node 18+, edge runtimes), node-fetch otherwise
+ */
+export function getDefaultTransport(): CodaTransport {
+    if (typeof globalThis.fetch === 'function') {
+        return globalThis.fetch.bind(globalThis);
+    }
+
+    return nodeFetch;
+}
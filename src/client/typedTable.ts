@@ -0,0 +1,216 @@
+import type {CodaClient} from "./codaClient";
+import {
+    CodaColumn,
+    CodaMutationResponse,
+    CodaRequestOptions,
+    CodaRow,
+    CodaRowListParams,
+    CodaRowRequest,
+    CodaTypedRow,
+    CodaValidationError
+} from "../types";
+
+export type CodaRowValues = Record<string, any>;
+
+/**
+ * `T` without any key missing from `Row`, so that object variables with unknown columns
+ * are rejected at compile time and not only object literals
+ */
+export type CodaExactRow<T, Row> = T & { [K in Exclude<keyof T, keyof Row>]: never };
+
+export interface TypedTableOptions<Row extends CodaRowValues> {
+    /**
+     * Column ID of some or all keys of `Row`. Keys listed here keep working when the column is renamed,
+     * the others are matched by column name, or by ID when the key is a column ID.
+     */
+    columnIds?: Partial<Record<keyof Row & string, string>>;
+}
+
+export interface TypedTableListOptions<Row extends CodaRowValues> extends Pick<CodaRowListParams, 'visibleOnly' | 'sortBy'> {
+    /** Only the rows whose column equals the value, a single column being supported by the API */
+    where?: Partial<Row>;
+    /** Maximum number of rows */
+    limit?: number;
+}
+
+/**
+ * Table handle reading and writing plain `Row` objects, keys being translated to column IDs
+ */
+export class TypedTable<Row extends CodaRowValues> {
+    private columnsPromise?: Promise<{ idByKey: Map<string, string>; keyById: Map<string, string> }>;
+
+    constructor(
+        private readonly client: CodaClient,
+        readonly docId: string,
+        readonly tableId: string,
+        private readonly options: TypedTableOptions<Row> = {}
+    ) {}
+
+    /**
+     * Forget the columns of the table, read again on the next call
+     */
+    refreshColumns(): void {
+        this.columnsPromise = undefined;
+    }
+
+    /**
+     * List the rows of the table, following every page
+     */
+    async list(options?: TypedTableListOptions<Row>, requestOptions?: CodaRequestOptions): Promise<CodaTypedRow<Row>[]> {
+        const query = await this.toQuery(options?.where, requestOptions);
+        const limit = options?.limit ?? Infinity;
+        const rows: CodaTypedRow<Row>[] = [];
+        let pageToken: string | undefined;
+
+        do {
+            const response = await this.client.listRows(this.docId, this.tableId, {
+                query,
+                sortBy: options?.sortBy,
+                visibleOnly: options?.visibleOnly,
+                valueFormat: 'simpleWithArrays',
+                limit: Number.isFinite(limit) ? Math.min(limit - rows.length, 500) : undefined,
+                pageToken
+            }, requestOptions);
+
+            for (const row of response.items || []) {
+                rows.push(await this.fromRow(row, requestOptions));
+            }
+            pageToken = response.nextPageToken;
+        } while (pageToken && rows.length < limit);
+
+        return rows.slice(0, limit);
+    }
+
+    /**
+     * take a row by its ID or name
+     */
+    async get(rowId: string, requestOptions?: CodaRequestOptions): Promise<CodaTypedRow<Row>> {
+        const row = await this.client.getRow(this.docId, this.tableId, rowId, { valueFormat: 'simpleWithArrays' }, requestOptions);
+        return this.fromRow(row, requestOptions);
+    }
+
+    /**
+     * Insert rows
+     */
+    async insert<T extends Partial<Row>>(rows: CodaExactRow<T, Row>[], requestOptions?: CodaRequestOptions): Promise<CodaMutationResponse> {
+        const requests = await Promise.all(rows.map(row => this.toRowRequest(row, requestOptions)));
+        return this.client.insertRows(this.docId, this.tableId, requests, undefined, requestOptions);
+    }
+
+    /**
+     * Update the given columns of a row
+     */
+    async update<T extends Partial<Row>>(rowId: string, changes: CodaExactRow<T, Row>, requestOptions?: CodaRequestOptions): Promise<CodaMutationResponse> {
+        const request = await this.toRowRequest(changes, requestOptions);
+        return this.client.updateRow(this.docId, this.tableId, rowId, request, undefined, requestOptions);
+    }
+
+    /**
+     * Insert rows, or update the existing rows having the same values in the key columns
+     */
+    async upsert<T extends Partial<Row>>(
+        rows: CodaExactRow<T, Row>[],
+        keyColumns: (keyof Row & string)[],
+        requestOptions?: CodaRequestOptions
+    ): Promise<CodaMutationResponse> {
+        const requests = await Promise.all(rows.map(row => this.toRowRequest(row, requestOptions)));
+        const keyColumnIds = await this.toColumnIds(keyColumns, requestOptions);
+        return this.client.insertRows(this.docId, this.tableId, requests, { keyColumns: keyColumnIds }, requestOptions);
+    }
+
+    /**
+     * Delete one or several rows
+     */
+    async delete(rowIds: string | string[], requestOptions?: CodaRequestOptions): Promise<CodaMutationResponse> {
+        return Array.isArray(rowIds)
+            ? this.client.deleteRows(this.docId, this.tableId, rowIds, requestOptions)
+            : this.client.deleteRow(this.docId, this.tableId, rowIds, requestOptions);
+    }
+
+    private columns(requestOptions?: CodaRequestOptions) {
+        if (!this.columnsPromise) {
+            this.columnsPromise = this.loadColumns(requestOptions);
+            // A failed read must not be cached
+            this.columnsPromise.catch(() => this.refreshColumns());
+        }
+        return this.columnsPromise;
+    }
+
+    private async loadColumns(requestOptions?: CodaRequestOptions) {
+        const columns: CodaColumn[] = [];
+        let pageToken: string | undefined;
+
+        do {
+            const response = await this.client.listColumns(this.docId, this.tableId, { pageToken }, requestOptions);
+            columns.push(...(response.items || []));
+            pageToken = response.nextPageToken;
+        } while (pageToken);
+
+        const idByKey = new Map<string, string>();
+        const keyById = new Map<string, string>();
+        columns.forEach(column => {
+            idByKey.set(column.name, column.id);
+            idByKey.set(column.id, column.id);
+            keyById.set(column.id, column.name);
+        });
+
+        // Explicit IDs win over names, which may have been renamed or reused
+        Object.entries(this.options.columnIds || {}).forEach(([key, id]) => {
+            if (id) {
+                idByKey.set(key, id);
+                keyById.set(id, key);
+            }
+        });
+
+        return { idByKey, keyById };
+    }
+
+    private async toColumnIds(keys: string[], requestOptions?: CodaRequestOptions): Promise<string[]> {
+        const { idByKey } = await this.columns(requestOptions);
+        const unknown = keys.filter(key => !idByKey.has(key));
+        if (unknown.length > 0) {
+            throw new CodaValidationError(unknown.map(key => `Unknown column "${key}" in table ${this.tableId}`));
+        }
+        return keys.map(key => idByKey.get(key)!);
+    }
+
+    private async toRowRequest(values: Partial<Row>, requestOptions?: CodaRequestOptions): Promise<CodaRowRequest> {
+        const entries = Object.entries(values).filter(([, value]) => value !== undefined);
+        const columnIds = await this.toColumnIds(entries.map(([key]) => key), requestOptions);
+        return {
+            cells: entries.map(([, value], index) => ({ column: columnIds[index], value }))
+        };
+    }
+
+    private async toQuery(where?: Partial<Row>, requestOptions?: CodaRequestOptions): Promise<string | undefined> {
+        const entries = Object.entries(where || {}).filter(([, value]) => value !== undefined);
+        if (entries.length === 0) {
+            return undefined;
+        }
+        if (entries.length > 1) {
+            throw new CodaValidationError(['Only one column can be used in a where clause']);
+        }
+
+        const [columnId] = await this.toColumnIds([entries[0][0]], requestOptions);
+        return `${columnId}:${JSON.stringify(entries[0][1])}`;
+    }
+
+    private async fromRow(row: CodaRow, requestOptions?: CodaRequestOptions): Promise<CodaTypedRow<Row>> {
+        const { keyById } = await this.columns(requestOptions);
+        const values: CodaRowValues = {};
+
+        Object.entries(row.values || {}).forEach(([columnId, value]) => {
+            values[keyById.get(columnId) ?? columnId] = value;
+        });
+
+        return {
+            id: row.id,
+            name: row.name,
+            index: row.index,
+            browserLink: row.browserLink,
+            createdAt: row.createdAt,
+            updatedAt: row.updatedAt,
+            values: values as Row
+        };
+    }
+}
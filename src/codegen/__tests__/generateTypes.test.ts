@@ -0,0 +1,115 @@
+import { columnValueType, generateDocTypes, renderTableTypes } from '../generateTypes';
+import { parseCodegenArgs } from '../cli';
+import { normalizeTableSchema } from '../../schema';
+import { CodaClient } from '../../client/codaClient';
+import { CodaColumn, CodaTable, CodaTableSchema } from '../../types';
+
+function column(id: string, name: string, type: string, extra: Partial<CodaColumn> & { isArray?: boolean } = {}): CodaColumn {
+    const { isArray, ...rest } = extra;
+    return { id, name, calculated: false, display: false, format: { type, isArray: isArray ?? false }, ...rest } as CodaColumn;
+}
+
+function schema(id: string, name: string, columns: CodaColumn[]): CodaTableSchema {
+    return normalizeTableSchema('doc1', { id, name, displayColumn: { id: columns[0]?.id } } as CodaTable, columns);
+}
+
+const tasks = schema('grid-tasks', 'Tasks', [
+    column('c-1', 'Name', 'text', { display: true }),
+    column('c-2', 'Due date', 'date'),
+    column('c-3', 'Tags', 'select', { isArray: true }),
+    column('c-4', 'Total', 'currency', { calculated: true })
+]);
+
+describe('columnValueType', () => {
+    it('should map column formats to TypeScript types', () => {
+        expect(columnValueType({ type: 'number', isArray: false })).toBe('number');
+        expect(columnValueType({ type: 'checkbox', isArray: false })).toBe('boolean');
+        expect(columnValueType({ type: 'person', isArray: true })).toBe('string[]');
+        expect(columnValueType({ type: 'packObject', isArray: false })).toBe('unknown');
+    });
+});
+
+describe('renderTableTypes', () => {
+    it('should render constants and a row interface per table', () => {
+        expect(renderTableTypes([tasks], { docId: 'doc1' })).toBe([
+            '// Generated by coda-codegen from doc doc1. Do not edit, regenerate instead.',
+            '// Row values are typed as read with `useColumnNames: true` and `valueFormat: \'simpleWithArrays\'`.',
+            '',
+            '/** Table "Tasks" */',
+            'export const TasksTableId = \'grid-tasks\';',
+            '',
+            'export const TasksColumnNames = {',
+            '    name: \'Name\',',
+            '    dueDate: \'Due date\',',
+            '    tags: \'Tags\',',
+            '    total: \'Total\',',
+            '} as const;',
+            '',
+            'export const TasksColumnIds = {',
+            '    name: \'c-1\',',
+            '    dueDate: \'c-2\',',
+            '    tags: \'c-3\',',
+            '    total: \'c-4\',',
+            '} as const;',
+            '',
+            'export interface TasksRow {',
+            '    /** c-1, text */',
+            '    Name: string;',
+            '    /** c-2, date */',
+            '    \'Due date\': string;',
+            '    /** c-3, select[] */',
+            '    Tags: string[];',
+            '    /** c-4, currency, calculated */',
+            '    readonly Total: number;',
+            '}',
+            ''
+        ].join('\n'));
+    });
+
+    it('should be deterministic and give unique identifiers', () => {
+        const projects = schema('grid-projects', 'Projets été', [column('c-1', 'Name', 'text'), column('c-2', 'name', 'text')]);
+        const duplicate = schema('grid-other', 'Tasks', [column('c-9', '2024 budget', 'number')]);
+
+        const output = renderTableTypes([tasks, duplicate, projects]);
+
+        expect(renderTableTypes([projects, tasks, duplicate])).toBe(output);
+        expect(output.indexOf('ProjetsEteTableId')).toBeLessThan(output.indexOf('TasksTableId'));
+        expect(output).toContain('export const TasksTableId = \'grid-other\';');
+        expect(output).toContain('export const Tasks2TableId = \'grid-tasks\';');
+        expect(output).toContain('    name2: \'name\',');
+        expect(output).toContain('    _2024Budget: \'2024 budget\',');
+    });
+});
+
+describe('generateDocTypes', () => {
+    it('should read the schema of the selected tables', async () => {
+        const client = {
+            listTables: jest.fn().mockResolvedValue({ items: [{ id: 'grid-tasks', name: 'Tasks' }, { id: 'grid-log', name: 'Log' }] }),
+            getTableSchema: jest.fn().mockResolvedValue(tasks)
+        } as unknown as jest.Mocked<CodaClient>;
+
+        const output = await generateDocTypes(client, 'doc1', { tables: ['Tasks'] });
+
+        expect(client.listTables).toHaveBeenCalledWith('doc1', { pageToken: undefined, tableTypes: ['table'] }, { signal: undefined, timeout: undefined });
+        expect(client.getTableSchema).toHaveBeenCalledTimes(1);
+        expect(client.getTableSchema).toHaveBeenCalledWith('doc1', 'grid-tasks', { signal: undefined, timeout: undefined });
+        expect(output).toContain('export interface TasksRow {');
+    });
+});
+
+describe('parseCodegenArgs', () => {
+    it('should parse the command line', () => {
+        expect(parseCodegenArgs(['--doc', 'doc1', '--out', 'src/coda.ts', '--tables', 'Tasks, grid-log', '--include-views'])).toEqual({
+            doc: 'doc1',
+            out: 'src/coda.ts',
+            tables: ['Tasks', 'grid-log'],
+            includeViews: true
+        });
+    });
+
+    it('should reject missing or unknown arguments', () => {
+        expect(() => parseCodegenArgs([])).toThrow('Usage: coda-codegen');
+        expect(() => parseCodegenArgs(['--doc'])).toThrow('Missing value for --doc');
+        expect(() => parseCodegenArgs(['--doc', 'doc1', '--verbose'])).toThrow('Unknown argument --verbose');
+    });
+});
@@ -0,0 +1,92 @@
+#!/usr/bin/env node
+import {CodaClient} from "../client/codaClient";
+import {generateDocTypes, GenerateTypesOptions, writeDocTypes} from "./generateTypes";
+
+const USAGE = `Usage: coda-codegen --doc <docId or URL> [--out <file.ts>] [--tables <id or name,...>] [--include-views]
+
+Generate TypeScript row types from the tables of a Coda doc.
+The API token is read from CODA_API_TOKEN, or from a .env file.
+Without --out, the module is written to the standard output.`;
+
+export interface CodegenArgs extends GenerateTypesOptions {
+    doc: string;
+    out?: string;
+}
+
+/**
+ * Parse the command line arguments, without the node and script paths
+ * @throws Error with the usage when an argument is missing or unknown
+ */
+export function parseCodegenArgs(argv: string[]): CodegenArgs {
+    const args: Partial<CodegenArgs> = {};
+
+    for (let i = 0; i < argv.length; i++) {
+        const arg = argv[i];
+        const value = () => {
+            const next = argv[++i];
+            if (next === undefined || next.startsWith('--')) {
+                throw new Error(`Missing value for ${arg}\n\n${USAGE}`);
+            }
+            return next;
+        };
+
+        switch (arg) {
+            case '--doc':
+                args.doc = value();
+                break;
+            case '--out':
+                args.out = value();
+                break;
+            case '--tables':
+                args.tables = value().split(',').map(table => table.trim()).filter(Boolean);
+                break;
+            case '--include-views':
+                args.includeViews = true;
+                break;
+            default:
+                throw new Error(`Unknown argument ${arg}\n\n${USAGE}`);
+        }
+    }
+
+    if (!args.doc) {
+        throw new Error(USAGE);
+    }
+
+    return args as CodegenArgs;
+}
+
+/**
+ * Run the generator, returning the process exit code
+ */
+export async function runCodegen(argv: string[], client?: CodaClient): Promise<number> {
+    let args: CodegenArgs;
+    try {
+        args = parseCodegenArgs(argv);
+    } catch (error) {
+        process.stderr.write(`${(error as Error).message}\n`);
+        return 2;
+    }
+
+    try {
+        const codaClient = client || new CodaClient();
+        const docId = args.doc.startsWith('http') ? codaClient.getDocIdByUrl(args.doc) : args.doc;
+        const options = { tables: args.tables, includeViews: args.includeViews };
+
+        if (args.out) {
+            await writeDocTypes(codaClient, docId, args.out, options);
+            process.stderr.write(`Types of doc ${docId} written to ${args.out}\n`);
+        } else {
+            process.stdout.write(await generateDocTypes(codaClient, docId, options));
+        }
+        return 0;
+    } catch (error) {
+        process.stderr.write(`coda-codegen: ${(error as Error).message}\n`);
+        return 1;
+    }
+}
+
+if (require.main === module) {
+    runCodegen(process.argv.slice(2)).then(code => {
+        process.exitCode = code;
+    });
+}
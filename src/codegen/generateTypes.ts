@@ -0,0 +1,182 @@
+import {promises as fs} from 'fs';
+import {CodaClient} from "../client/codaClient";
+import {CodaColumnSchema, CodaRequestOptions, CodaTable, CodaTableSchema} from "../types";
+
+export interface GenerateTypesOptions {
+    /** Only generate these tables, by ID or name */
+    tables?: string[];
+    /** Also generate the views of the doc */
+    includeViews?: boolean;
+}
+
+/**
+ * TypeScript type of a cell read with `valueFormat: 'simpleWithArrays'`, by column format type
+ */
+const VALUE_TYPES: Record<string, string> = {
+    text: 'string',
+    canvas: 'string',
+    email: 'string',
+    link: 'string',
+    image: 'string',
+    imageReference: 'string',
+    attachments: 'string',
+    person: 'string',
+    lookup: 'string',
+    select: 'string',
+    reaction: 'string',
+    date: 'string',
+    dateTime: 'string',
+    time: 'string',
+    number: 'number',
+    percent: 'number',
+    currency: 'number',
+    duration: 'number',
+    slider: 'number',
+    scale: 'number',
+    checkbox: 'boolean'
+};
+
+const IDENTIFIER = /^[A-Za-z_$][A-Za-z0-9_$]*$/;
+
+function words(name: string): string[] {
+    return name
+        .normalize('NFD')
+        .replace(/[\u0300-\u036f]/g, '')
+        .replace(/['’]/g, '')
+        .split(/[^A-Za-z0-9]+|(?<=[a-z0-9])(?=[A-Z])/)
+        .filter(Boolean);
+}
+
+function pascalCase(name: string, fallback: string): string {
+    const identifier = words(name).map(word => word[0].toUpperCase() + word.slice(1)).join('') || fallback;
+    return /^[0-9]/.test(identifier) ? `_${identifier}` : identifier;
+}
+
+function camelCase(name: string, fallback: string): string {
+    const identifier = pascalCase(name, fallback);
+    return identifier[0] === '_' ? identifier : identifier[0].toLowerCase() + identifier.slice(1);
+}
+
+/**
+ * Make identifiers unique by suffixing duplicates with their rank
+ */
+function uniqueNames(names: string[]): string[] {
+    const counts = new Map<string, number>();
+    return names.map(name => {
+        const count = (counts.get(name) || 0) + 1;
+        counts.set(name, count);
+        return count === 1 ? name : `${name}${count}`;
+    });
+}
+
+/**
+ * Ordinal comparison, independent of the locale of the machine
+ */
+function compare(a: string, b: string): number {
+    return a < b ? -1 : a > b ? 1 : 0;
+}
+
+function quote(value: string): string {
+    return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+}
+
+function propertyKey(name: string): string {
+    return IDENTIFIER.test(name) ? name : quote(name);
+}
+
+function comment(text: string): string {
+    return text.replace(/\*\//g, '*\\/');
+}
+
+/**
+ * TypeScript type of the values of a column
+ */
+export function columnValueType(column: Pick<CodaColumnSchema, 'type' | 'isArray'>): string {
+    const type = VALUE_TYPES[column.type] || 'unknown';
+    return column.isArray ? `${type}[]` : type;
+}
+
+function renderTable(schema: CodaTableSchema, typeName: string): string {
+    const keys = uniqueNames(schema.columns.map(column => camelCase(column.name, 'column')));
+    const constants = (values: string[]) => schema.columns
+        .map((_, index) => `    ${keys[index]}: ${quote(values[index])},\n`)
+        .join('');
+
+    const properties = schema.columns.map(column => [
+        `    /** ${comment(`${column.id}, ${column.type}${column.isArray ? '[]' : ''}${column.calculated ? ', calculated' : ''}`)} */`,
+        `    ${column.calculated ? 'readonly ' : ''}${propertyKey(column.name)}: ${columnValueType(column)};`
+    ].join('\n'));
+
+    return [
+        [
+            `/** Table "${comment(schema.tableName)}" */`,
+            `export const ${typeName}TableId = ${quote(schema.tableId)};`
+        ].join('\n'),
+        `export const ${typeName}ColumnNames = {\n${constants(schema.columns.map(column => column.name))}} as const;`,
+        `export const ${typeName}ColumnIds = {\n${constants(schema.columns.map(column => column.id))}} as const;`,
+        `export interface ${typeName}Row {\n${properties.map(property => `${property}\n`).join('')}}`
+    ].join('\n\n');
+}
+
+/**
+ * Render the row types of tables as a TypeScript module.
+ * The output only depends on the schemas, tables being sorted by name then ID.
+ */
+export function renderTableTypes(schemas: CodaTableSchema[], options?: { docId?: string }): string {
+    const sorted = [...schemas].sort((a, b) => compare(a.tableName, b.tableName) || compare(a.tableId, b.tableId));
+    const typeNames = uniqueNames(sorted.map(schema => pascalCase(schema.tableName, 'Table')));
+    const source = options?.docId ? ` from doc ${options.docId}` : '';
+
+    return [
+        `// Generated by coda-codegen${source}. Do not edit, regenerate instead.`,
+        '// Row values are typed as read with `useColumnNames: true` and `valueFormat: \'simpleWithArrays\'`.',
+        '',
+        sorted.map((schema, index) => renderTable(schema, typeNames[index])).join('\n\n'),
+        ''
+    ].join('\n');
+}
+
+/**
+ * Read the schemas of the tables of a doc and render their row types
+ */
+export async function generateDocTypes(
+    client: CodaClient,
+    docId: string,
+    options?: GenerateTypesOptions & CodaRequestOptions
+): Promise<string> {
+    const requestOptions = { signal: options?.signal, timeout: options?.timeout };
+    const tables: CodaTable[] = [];
+    let pageToken: string | undefined;
+
+    do {
+        const response = await client.listTables(docId, {
+            pageToken,
+            tableTypes: options?.includeViews ? ['table', 'view'] : ['table']
+        }, requestOptions);
+        tables.push(...(response.items || []));
+        pageToken = response.nextPageToken;
+    } while (pageToken);
+
+    const selected = options?.tables
+        ? tables.filter(table => options.tables!.includes(table.id) || options.tables!.includes(table.name))
+        : tables;
+
+    const schemas: CodaTableSchema[] = [];
+    for (const table of selected) {
+        schemas.push(await client.getTableSchema(docId, table.id, requestOptions));
+    }
+
+    return renderTableTypes(schemas, { docId });
+}
+
+/**
+ * Generate the row types of a doc into a file
+ */
+export async function writeDocTypes(
+    client: CodaClient,
+    docId: string,
+    outFile: string,
+    options?: GenerateTypesOptions & CodaRequestOptions
+): Promise<void> {
+    await fs.writeFile(outFile, await generateDocTypes(client, docId, options), 'utf8');
+}
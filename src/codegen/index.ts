@@ -0,0 +1,3 @@
+export * from './generateTypes';
+export {parseCodegenArgs, runCodegen} from './cli';
+export type {CodegenArgs} from './cli';
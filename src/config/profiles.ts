@@ -1,4 +1,4 @@
-import { LogLevel } from '../utils';
+import { LogLevel } from '../utils/logger';
 import {EnhancedCodaClientConfig} from "../client";
 
 /**
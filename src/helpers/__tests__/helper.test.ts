@@ -8,10 +8,17 @@ import {
     findRows,
     findRowByColumnValue,
     upsertRow,
-    exportTableToJSON
+    exportTableToJSON,
+    getPageTree,
+    pushButtonOnRows,
+    diffPermissions,
+    syncDocPermissions,
+    placeDocInFolder,
+    getAnalyticsTimeSeries
 } from '../index';
 import { CodaClient } from '../../client/codaClient';
-import { CodaRow } from '../../types';
+import { s } from '../../validator';
+import { CodaAbortError, CodaApiError, CodaColumn, CodaDoc, CodaDocAnalyticsItem, CodaFolder, CodaPage, CodaPermission, CodaRow, CodaValidationError } from '../../types';
 
 // Mock du client
 jest.mock('../../client/codaClient');
@@ -156,6 +163,26 @@ describe('Helpers', () => {
             const obj = rowToObject(mockRow);
             expect(obj).toEqual({});
         });
+
+        it('should decode rich values with the table columns', () => {
+            const mockRow = {
+                id: 'row1',
+                values: {
+                    'Owner': { '@context': 'http://schema.org/', '@type': 'Person', name: 'John Doe', email: 'john@example.com' },
+                    'Joined': '2023-01-01T00:00:00.000Z'
+                }
+            } as unknown as CodaRow;
+            const columns = [
+                { id: 'c-owner', name: 'Owner', format: { type: 'person', isArray: false } },
+                { id: 'c-joined', name: 'Joined', format: { type: 'dateTime', isArray: false } }
+            ] as CodaColumn[];
+
+            const obj = rowToObject(mockRow, columns);
+            expect(obj).toEqual({
+                'Owner': { name: 'John Doe', email: 'john@example.com' },
+                'Joined': new Date('2023-01-01T00:00:00.000Z')
+            });
+        });
     });
 
     describe('getAllRows', () => {
@@ -191,7 +218,24 @@ describe('Helpers', () => {
             expect(result).toEqual(mockRows);
             expect(mockClient.listRows).toHaveBeenCalledWith('doc1', 'table1', {
                 pageToken: undefined
+            }, { signal: undefined, timeout: undefined });
+        });
+
+        it('should stop paginating once the signal is aborted', async () => {
+            const controller = new AbortController();
+
+            mockClient.listRows.mockImplementationOnce(async () => {
+                controller.abort();
+                return { items: [], nextPageToken: 'token1' };
             });
+
+            await expect(
+                getAllRows(mockClient, 'doc1', 'table1', { signal: controller.signal, timeout: 5000 })
+            ).rejects.toThrow(CodaAbortError);
+            expect(mockClient.listRows).toHaveBeenCalledTimes(1);
+            expect(mockClient.listRows).toHaveBeenCalledWith('doc1', 'table1', {
+                pageToken: undefined
+            }, { signal: controller.signal, timeout: 5000 });
         });
     });
 
@@ -247,7 +291,7 @@ describe('Helpers', () => {
                 { waitForCompletion: true }
             );
 
-            expect(mockClient.waitForMutation).toHaveBeenCalledWith('req1');
+            expect(mockClient.waitForMutation).toHaveBeenCalledWith('req1', undefined, { signal: undefined, timeout: undefined });
         });
     });
 
@@ -462,4 +506,337 @@ describe('Helpers', () => {
             });
         });
     });
-});
\ No newline at end of file
+
+    describe('getPageTree', () => {
+        const page = (id: string, parentId?: string, childIds: string[] = []): CodaPage => ({
+            id,
+            type: 'page',
+            href: `https://coda.io/apis/v1/docs/doc1/pages/${id}`,
+            browserLink: `https://coda.io/d/_ddoc1/_su${id}`,
+            name: `Page ${id}`,
+            contentType: 'canvas',
+            isHidden: false,
+            isEffectivelyHidden: false,
+            parent: parentId ? {
+                id: parentId,
+                type: 'page',
+                href: `https://coda.io/apis/v1/docs/doc1/pages/${parentId}`,
+                browserLink: `https://coda.io/d/_ddoc1/_su${parentId}`,
+                name: `Page ${parentId}`
+            } : undefined,
+            children: childIds.map(childId => ({
+                id: childId,
+                type: 'page',
+                href: `https://coda.io/apis/v1/docs/doc1/pages/${childId}`,
+                browserLink: `https://coda.io/d/_ddoc1/_su${childId}`,
+                name: `Page ${childId}`
+            }))
+        });
+
+        it('should build the page hierarchy across result pages', async () => {
+            mockClient.listPages
+                .mockResolvedValueOnce({
+                    items: [page('root', undefined, ['b', 'a']), page('a', 'root', ['a1'])],
+                    nextPageToken: 'token1'
+                })
+                .mockResolvedValueOnce({
+                    items: [page('b', 'root'), page('a1', 'a'), page('other')]
+                });
+
+            const tree = await getPageTree(mockClient, 'doc1');
+
+            expect(tree.map(node => node.page.id)).toEqual(['root', 'other']);
+            expect(tree[0].children.map(node => node.page.id)).toEqual(['b', 'a']);
+            expect(tree[0].children[1].children[0].page.id).toBe('a1');
+            expect(mockClient.listPages).toHaveBeenCalledWith('doc1', { pageToken: 'token1' }, undefined);
+        });
+    });
+
+    describe('pushButtonOnRows', () => {
+        const row = (id: string, status: string) => ({
+            id,
+            values: { Status: status }
+        } as unknown as CodaRow);
+
+        it('should push the button on matching rows and collect failures', async () => {
+            mockClient.listRows.mockResolvedValueOnce({
+                items: [row('r1', 'todo'), row('r2', 'done'), row('r3', 'todo'), row('r4', 'todo')]
+            });
+            mockClient.pushButton
+                .mockResolvedValueOnce({ requestId: 'req1', rowId: 'r1', columnId: 'c1' })
+                .mockRejectedValueOnce(new Error('Server error'))
+                .mockResolvedValueOnce({ requestId: 'req4', rowId: 'r4', columnId: 'c1' });
+
+            const result = await pushButtonOnRows(
+                mockClient,
+                'doc1',
+                'table1',
+                'c1',
+                r => r.values.Status === 'todo',
+                { useColumnNames: true }
+            );
+
+            expect(result.pushed.map(p => p.rowId)).toEqual(['r1', 'r4']);
+            expect(result.failed).toEqual([{ rowId: 'r3', error: expect.any(Error) }]);
+            expect(mockClient.pushButton).toHaveBeenNthCalledWith(
+                1, 'doc1', 'table1', 'r1', 'c1', { validateColumn: true }, expect.any(Object)
+            );
+            expect(mockClient.pushButton).toHaveBeenNthCalledWith(
+                2, 'doc1', 'table1', 'r3', 'c1', { validateColumn: false }, expect.any(Object)
+            );
+        });
+    });
+
+    describe('Permissions', () => {
+        const current: CodaPermission[] = [
+            { id: 'p1', principal: { type: 'email', email: 'Alice@example.com' }, access: 'write' },
+            { id: 'p2', principal: { type: 'email', email: 'bob@example.com' }, access: 'readonly' },
+            { id: 'p3', principal: { type: 'domain', domain: 'example.com' }, access: 'comment' }
+        ];
+
+        it('should compute added, updated and removed permissions', () => {
+            const diff = diffPermissions(current, [
+                { principal: { type: 'email', email: 'alice@example.com' }, access: 'write' },
+                { principal: { type: 'email', email: 'bob@example.com' }, access: 'write' },
+                { principal: { type: 'anyone' }, access: 'readonly' }
+            ]);
+
+            expect(diff.added).toEqual([{ principal: { type: 'anyone' }, access: 'readonly' }]);
+            expect(diff.updated).toEqual([{
+                from: current[1],
+                to: { principal: { type: 'email', email: 'bob@example.com' }, access: 'write' }
+            }]);
+            expect(diff.removed).toEqual([current[2]]);
+        });
+
+        it('should keep unlisted permissions when asked', () => {
+            const diff = diffPermissions(current, [], { removeUnlisted: false });
+
+            expect(diff.removed).toEqual([]);
+        });
+
+        it('should apply the diff to the document', async () => {
+            mockClient.listPermissions
+                .mockResolvedValueOnce({ items: current })
+                .mockResolvedValueOnce({ items: [...current, { id: 'p4', principal: current[1].principal, access: 'write' }] });
+
+            await syncDocPermissions(mockClient, 'doc1', [
+                { principal: { type: 'email', email: 'alice@example.com' }, access: 'write' },
+                { principal: { type: 'email', email: 'bob@example.com' }, access: 'write' },
+                { principal: { type: 'email', email: 'carol@example.com' }, access: 'comment' }
+            ]);
+
+            expect(mockClient.deletePermission.mock.calls.map(call => call[1])).toEqual(['p2', 'p3']);
+            expect(mockClient.addPermission.mock.calls.map(call => [call[1], call[2], call[3]])).toEqual([
+                [{ type: 'email', email: 'bob@example.com' }, 'write', { suppressEmail: true }],
+                [{ type: 'email', email: 'carol@example.com' }, 'comment', { suppressEmail: undefined }]
+            ]);
+        });
+
+        it('should grant the new access before removing the old one', async () => {
+            mockClient.listPermissions.mockResolvedValueOnce({ items: current });
+            mockClient.addPermission.mockRejectedValueOnce(new CodaApiError('Rate limit exceeded', 429));
+
+            await expect(syncDocPermissions(mockClient, 'doc1', [
+                { principal: { type: 'email', email: 'alice@example.com' }, access: 'write' },
+                { principal: { type: 'email', email: 'bob@example.com' }, access: 'write' }
+            ], { removeUnlisted: false })).rejects.toThrow('Rate limit exceeded');
+
+            expect(mockClient.deletePermission).not.toHaveBeenCalled();
+        });
+
+        it('should keep a permission updated in place by the API', async () => {
+            mockClient.listPermissions
+                .mockResolvedValueOnce({ items: current })
+                .mockResolvedValueOnce({ items: [current[0], { ...current[1], access: 'write' }, current[2]] });
+
+            await syncDocPermissions(mockClient, 'doc1', [
+                { principal: { type: 'email', email: 'bob@example.com' }, access: 'write' }
+            ], { removeUnlisted: false });
+
+            expect(mockClient.addPermission).toHaveBeenCalledTimes(1);
+            expect(mockClient.deletePermission).not.toHaveBeenCalled();
+        });
+
+        it('should not change anything on a dry run', async () => {
+            mockClient.listPermissions.mockResolvedValueOnce({ items: current });
+
+            const diff = await syncDocPermissions(mockClient, 'doc1', [], { dryRun: true });
+
+            expect(diff.removed).toHaveLength(3);
+            expect(mockClient.deletePermission).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('placeDocInFolder', () => {
+        const doc = { id: 'doc1', name: 'Project', workspaceId: 'ws1', folderId: 'fl0' } as CodaDoc;
+        const folder = { id: 'fl1', name: 'Projects' } as CodaFolder;
+
+        beforeEach(() => {
+            mockClient.getDoc.mockResolvedValue(doc);
+            mockClient.createDoc.mockResolvedValue({ ...doc, id: 'doc2', folderId: 'fl1' });
+        });
+
+        it('should copy the doc into the folder found by name', async () => {
+            mockClient.listFolders.mockResolvedValueOnce({ items: [{ id: 'fl2', name: 'Archive' } as CodaFolder, folder] });
+
+            const copy = await placeDocInFolder(mockClient, 'doc1', 'Projects');
+
+            expect(copy.id).toBe('doc2');
+            expect(mockClient.listFolders).toHaveBeenCalledWith({ workspaceId: 'ws1', pageToken: undefined }, { signal: undefined, timeout: undefined });
+            expect(mockClient.createDoc).toHaveBeenCalledWith('Project', { sourceDoc: 'doc1', folderId: 'fl1' }, { signal: undefined, timeout: undefined });
+            expect(mockClient.deleteDoc).not.toHaveBeenCalled();
+        });
+
+        it('should delete the original once the copy is readable when moving', async () => {
+            mockClient.listFolders.mockResolvedValueOnce({ items: [folder] });
+            mockClient.getDoc
+                .mockResolvedValueOnce(doc)
+                .mockRejectedValueOnce(new CodaApiError('Not found', 404))
+                .mockResolvedValueOnce({ ...doc, id: 'doc2', folderId: 'fl1' });
+
+            const moved = await placeDocInFolder(mockClient, 'doc1', 'Projects', { mode: 'move', deleteSource: true, pollInterval: 0 });
+
+            expect(moved.id).toBe('doc2');
+            expect(mockClient.getDoc).toHaveBeenLastCalledWith('doc2', { signal: undefined, timeout: undefined });
+            expect(mockClient.deleteDoc).toHaveBeenCalledWith('doc1', { signal: undefined, timeout: undefined });
+        });
+
+        it('should require deleteSource to move', async () => {
+            await expect(placeDocInFolder(mockClient, 'doc1', 'Projects', { mode: 'move' })).rejects.toThrow(CodaValidationError);
+            expect(mockClient.createDoc).not.toHaveBeenCalled();
+            expect(mockClient.deleteDoc).not.toHaveBeenCalled();
+        });
+
+        it('should keep the original when the copy fails', async () => {
+            mockClient.listFolders.mockResolvedValueOnce({ items: [folder] });
+            mockClient.createDoc.mockRejectedValueOnce(new CodaApiError('Server error', 500));
+
+            await expect(placeDocInFolder(mockClient, 'doc1', 'Projects', { mode: 'move', deleteSource: true })).rejects.toThrow('Server error');
+            expect(mockClient.deleteDoc).not.toHaveBeenCalled();
+        });
+
+        it('should keep the original when the copy never becomes readable', async () => {
+            mockClient.listFolders.mockResolvedValueOnce({ items: [folder] });
+            mockClient.getDoc
+                .mockResolvedValueOnce(doc)
+                .mockRejectedValue(new CodaApiError('Not found', 404));
+
+            const error = await placeDocInFolder(mockClient, 'doc1', 'Projects', {
+                mode: 'move',
+                deleteSource: true,
+                maxWaitTime: 0
+            }).catch(err => err);
+
+            expect(error).toBeInstanceOf(CodaApiError);
+            expect(error.statusCode).toBe(408);
+            expect(mockClient.deleteDoc).not.toHaveBeenCalled();
+        });
+
+        it('should create the folder when asked', async () => {
+            mockClient.listFolders.mockResolvedValueOnce({ items: [] });
+            mockClient.createFolder.mockResolvedValueOnce(folder);
+
+            await placeDocInFolder(mockClient, 'doc1', 'Projects', { createIfMissing: true });
+
+            expect(mockClient.createFolder).toHaveBeenCalledWith({ name: 'Projects', workspaceId: 'ws1' }, { signal: undefined, timeout: undefined });
+        });
+
+        it('should throw when the folder does not exist', async () => {
+            mockClient.listFolders.mockResolvedValueOnce({ items: [] });
+
+            await expect(placeDocInFolder(mockClient, 'doc1', 'Projects')).rejects.toThrow(CodaApiError);
+            expect(mockClient.createDoc).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('getAnalyticsTimeSeries', () => {
+        const metrics = (date: string, views: number) => ({
+            date, views, copies: 0, likes: 0, sessionsMobile: 0, sessionsDesktop: views, sessionsOther: 0, totalSessions: views
+        });
+
+        it('should flatten every page of analytics sorted by date', async () => {
+            mockClient.listDocAnalytics
+                .mockResolvedValueOnce({
+                    items: [{ doc: { id: 'doc2', title: 'B' }, metrics: [metrics('2024-01-02', 3), metrics('2024-01-01', 1)] } as CodaDocAnalyticsItem],
+                    nextPageToken: 'next'
+                })
+                .mockResolvedValueOnce({
+                    items: [{ doc: { id: 'doc1', title: 'A' }, metrics: [metrics('2024-01-01', 5)] } as CodaDocAnalyticsItem]
+                });
+
+            const points = await getAnalyticsTimeSeries(mockClient, { sinceDate: '2024-01-01', scale: 'daily' });
+
+            expect(points.map(point => [point.date, point.docId, point.views])).toEqual([
+                ['2024-01-01', 'doc1', 5],
+                ['2024-01-01', 'doc2', 1],
+                ['2024-01-02', 'doc2', 3]
+            ]);
+            expect(points[0].title).toBe('A');
+            expect(mockClient.listDocAnalytics).toHaveBeenLastCalledWith(
+                { sinceDate: '2024-01-01', scale: 'daily', pageToken: 'next' },
+                { signal: undefined, timeout: undefined }
+            );
+        });
+    });
+
+    describe('Row schemas', () => {
+        const schema = s.object({ Name: s.string(), Due: s.date().optional(), Points: s.number().int() });
+        const row = (id: string, index: number, values: Record<string, any>) => ({
+            id,
+            type: 'row',
+            href: `https://coda.io/apis/v1/docs/doc1/tables/table1/rows/${id}`,
+            name: `Row ${index}`,
+            index,
+            browserLink: `https://coda.io/d/doc1#table1/${id}`,
+            createdAt: '2023-01-01T00:00:00Z',
+            updatedAt: '2023-01-01T00:00:00Z',
+            values
+        }) as CodaRow;
+
+        beforeEach(() => {
+            mockClient.listRows
+                .mockResolvedValueOnce({
+                    items: [row('r1', 0, { Name: 'Write docs', Due: '2024-01-15', Points: 3 }), row('r2', 1, { Name: 'Fix bug', Points: 1.5 })],
+                    nextPageToken: 'next'
+                })
+                .mockResolvedValueOnce({
+                    items: [row('r3', 2, { Name: 'Release', Due: '', Points: 8 })]
+                });
+        });
+
+        it('should parse every row read by getAllRows', async () => {
+            const result = await getAllRows(mockClient, 'doc1', 'table1', { schema });
+
+            expect(result.rows.map(parsed => parsed.values)).toEqual([
+                { Name: 'Write docs', Due: new Date('2024-01-15'), Points: 3 },
+                { Name: 'Release', Points: 8 }
+            ]);
+            expect(result.failures).toEqual([
+                { rowId: 'r2', rowName: 'Row 1', index: 1, issues: [{ path: ['Points'], message: 'expected an integer' }] }
+            ]);
+            expect(mockClient.listRows).toHaveBeenCalledWith('doc1', 'table1', {
+                useColumnNames: true,
+                valueFormat: 'simpleWithArrays',
+                pageToken: undefined
+            }, { signal: undefined, timeout: undefined });
+        });
+
+        it('should apply the predicate of findRows to the parsed rows', async () => {
+            const result = await findRows(mockClient, 'doc1', 'table1', parsed => parsed.values.Points > 5, { schema });
+
+            expect(result.rows.map(parsed => parsed.id)).toEqual(['r3']);
+            expect(result.failures.map(failure => failure.rowId)).toEqual(['r2']);
+        });
+
+        it('should export the parsed values with exportTableToJSON', async () => {
+            const result = await exportTableToJSON(mockClient, 'doc1', 'table1', { schema, includeMetadata: true });
+
+            expect(result.rows).toEqual([
+                expect.objectContaining({ Name: 'Write docs', Points: 3, _metadata: expect.objectContaining({ id: 'r1' }) }),
+                expect.objectContaining({ Name: 'Release', Points: 8, _metadata: expect.objectContaining({ id: 'r3' }) })
+            ]);
+            expect(result.failures).toHaveLength(1);
+        });
+    });
+});
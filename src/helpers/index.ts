@@ -1,15 +1,45 @@
 import { CodaClient } from '../client/codaClient';
-import {CodaResponse, CodaRow, CodaRowRequest, CodaCell, CodaRowListParams} from '../types/coda.type';
+import {
+    CodaResponse,
+    CodaRow,
+    CodaRowRequest,
+    CodaCell,
+    CodaRowListParams,
+    CodaRequestOptions,
+    CodaPage,
+    CodaPageTreeNode,
+    CodaPushButtonResponse,
+    CodaPermission,
+    CodaPrincipal,
+    CodaDesiredPermission,
+    CodaPermissionDiff,
+    CodaDoc,
+    CodaFolder,
+    CodaApiError,
+    CodaDocAnalyticsParams,
+    CodaDocAnalyticsPoint,
+    CodaColumn,
+    CodaRichValueOptions,
+    CodaParsedRows,
+    CodaRowParseFailure,
+    CodaTypedRow
+} from '../types/coda.type';
+import {sleep, throwIfAborted} from '../utils/abort';
+import {decodeRichRow} from '../values/richValues';
+import {parseRow, parseRows, RowSchema, toParseFailure} from '../validator/rowSchema';
+import {CodaAbortError, CodaValidationError} from '../types/errors.type';
 
 /**
  * Helper pour paginer automatiquement à travers tous les résultats
  */
 export async function* paginateAll<T>(
-    fetcher: (pageToken?: string) => Promise<CodaResponse<T>>
+    fetcher: (pageToken?: string) => Promise<CodaResponse<T>>,
+    requestOptions?: CodaRequestOptions
 ): AsyncGenerator<T, void, unknown> {
     let pageToken: string | undefined;
 
     do {
+        throwIfAborted(requestOptions?.signal);
         const response = await fetcher(pageToken);
 
         if (response.items) {
@@ -22,24 +52,60 @@ export async function* paginateAll<T>(
     } while (pageToken);
 }
 
+type RowReadOptions = Pick<CodaRowListParams, 'useColumnNames' | 'valueFormat' | 'visibleOnly'> & CodaRequestOptions;
+
 /**
- * Helper pour récupérer toutes les lignes d'une table
+ * Paramètres de lecture des lignes, les lignes parsées par un schéma étant lues par nom de colonne et avec les tableaux
+ */
+function rowReadParams(
+    params: Pick<CodaRowListParams, 'useColumnNames' | 'valueFormat' | 'visibleOnly'>,
+    schema?: RowSchema<unknown>
+): Pick<CodaRowListParams, 'useColumnNames' | 'valueFormat' | 'visibleOnly'> {
+    if (!schema) {
+        return params;
+    }
+    return {
+        ...params,
+        useColumnNames: params.useColumnNames ?? true,
+        valueFormat: params.valueFormat ?? 'simpleWithArrays'
+    };
+}
+
+/**
+ * Helper pour récupérer toutes les lignes d'une table.
+ * Avec un schéma, les valeurs de chaque ligne sont parsées et les lignes invalides renvoyées à part.
  */
 export async function getAllRows(
     client: CodaClient,
     docId: string,
     tableId: string,
-    options?: Pick<CodaRowListParams, 'useColumnNames' | 'valueFormat' | 'visibleOnly'>
-): Promise<CodaRow[]> {
+    options?: RowReadOptions
+): Promise<CodaRow[]>;
+export async function getAllRows<T>(
+    client: CodaClient,
+    docId: string,
+    tableId: string,
+    options: RowReadOptions & { schema: RowSchema<T> }
+): Promise<CodaParsedRows<T>>;
+export async function getAllRows(
+    client: CodaClient,
+    docId: string,
+    tableId: string,
+    options?: RowReadOptions & { schema?: RowSchema<unknown> }
+): Promise<CodaRow[] | CodaParsedRows<unknown>> {
     const rows: CodaRow[] = [];
+    const { signal, timeout, schema, ...params } = options || {};
+    const requestOptions = { signal, timeout };
+    const listParams = rowReadParams(params, schema);
 
     for await (const row of paginateAll(pageToken =>
-        client.listRows(docId, tableId, { ...options, pageToken })
+        client.listRows(docId, tableId, { ...listParams, pageToken }, requestOptions),
+        requestOptions
     )) {
         rows.push(row);
     }
 
-    return rows;
+    return schema ? parseRows(rows, schema) : rows;
 }
 
 /**
@@ -54,13 +120,16 @@ export async function insertRowsBatch(
         batchSize?: number;
         keyColumns?: string[];
         waitForCompletion?: boolean;
-    }
+    } & CodaRequestOptions
 ): Promise<string[]> {
     const batchSize = options?.batchSize || 100;
     const allRowIds: string[] = [];
+    const requestOptions = { signal: options?.signal, timeout: options?.timeout };
 
     // Diviser les données en batches
     for (let i = 0; i < data.length; i += batchSize) {
+        throwIfAborted(options?.signal);
+
         const batch = data.slice(i, i + batchSize);
 
         // Convertir les données en format CodaRowRequest
@@ -73,11 +142,11 @@ export async function insertRowsBatch(
 
         const response = await client.insertRows(docId, tableId, rows, {
             keyColumns: options?.keyColumns
-        });
+        }, requestOptions);
 
         // Attendre la completion si demandé
         if (options?.waitForCompletion) {
-            const status = await client.waitForMutation(response.requestId);
+            const status = await client.waitForMutation(response.requestId, undefined, requestOptions);
             if (status.status === 'failed') {
                 throw new Error(`Échec de l'insertion du batch: ${status.error}`);
             }
@@ -109,9 +178,14 @@ export function createRow(data: Record<string, any>, keyColumns?: string[]): Cod
 }
 
 /**
- * Helper pour formater les données de ligne en objet simple
+ * Helper pour formater les données de ligne en objet simple.
+ * Avec les colonnes de la table, les valeurs lues avec `valueFormat: 'rich'` sont décodées.
  */
-export function rowToObject(row: CodaRow): Record<string, any> {
+export function rowToObject(row: CodaRow, columns?: CodaColumn[], options?: CodaRichValueOptions): Record<string, any> {
+    if (columns && row.values) {
+        return decodeRichRow(row.values, columns, options);
+    }
+
     const result: Record<string, any> = {};
 
     if (row.values) {
@@ -124,35 +198,64 @@ export function rowToObject(row: CodaRow): Record<string, any> {
 }
 
 /**
- * Helper pour rechercher des lignes par critères
+ * Helper pour rechercher des lignes par critères.
+ * Avec un schéma, le prédicat reçoit les lignes parsées et les lignes invalides sont renvoyées à part.
  */
 export async function findRows(
     client: CodaClient,
     docId: string,
     tableId: string,
     predicate: (row: CodaRow) => boolean,
-    options?: Pick<CodaRowListParams, 'useColumnNames' | 'valueFormat' | 'visibleOnly'> & { limit?: number }
-): Promise<CodaRow[]> {
-    const results: CodaRow[] = [];
+    options?: RowReadOptions & { limit?: number }
+): Promise<CodaRow[]>;
+export async function findRows<T>(
+    client: CodaClient,
+    docId: string,
+    tableId: string,
+    predicate: (row: CodaTypedRow<T>) => boolean,
+    options: RowReadOptions & { limit?: number; schema: RowSchema<T> }
+): Promise<CodaParsedRows<T>>;
+export async function findRows(
+    client: CodaClient,
+    docId: string,
+    tableId: string,
+    predicate: (row: any) => boolean,
+    options?: RowReadOptions & { limit?: number; schema?: RowSchema<unknown> }
+): Promise<CodaRow[] | CodaParsedRows<unknown>> {
+    const results: (CodaRow | CodaTypedRow<unknown>)[] = [];
+    const failures: CodaRowParseFailure[] = [];
     const limit = options?.limit || Infinity;
+    const schema = options?.schema;
+    const requestOptions = { signal: options?.signal, timeout: options?.timeout };
+    const listParams = rowReadParams({
+        useColumnNames: options?.useColumnNames,
+        valueFormat: options?.valueFormat,
+        visibleOnly: options?.visibleOnly
+    }, schema);
 
     for await (const row of paginateAll(pageToken =>
-        client.listRows(docId, tableId, {
-            useColumnNames: options?.useColumnNames,
-            valueFormat: options?.valueFormat,
-            visibleOnly: options?.visibleOnly,
-            pageToken
-        })
+        client.listRows(docId, tableId, { ...listParams, pageToken }, requestOptions),
+        requestOptions
     )) {
-        if (predicate(row)) {
-            results.push(row);
+        let candidate: CodaRow | CodaTypedRow<unknown> = row;
+        if (schema) {
+            const parsed = parseRow(row, schema);
+            if (!parsed.success) {
+                failures.push(toParseFailure(row, parsed.issues));
+                continue;
+            }
+            candidate = parsed.data;
+        }
+
+        if (predicate(candidate)) {
+            results.push(candidate);
             if (results.length >= limit) {
                 break;
             }
         }
     }
 
-    return results;
+    return schema ? { rows: results as CodaTypedRow<unknown>[], failures } : results as CodaRow[];
 }
 
 /**
@@ -164,7 +267,7 @@ export async function findRowByColumnValue(
     tableId: string,
     columnName: string,
     value: any,
-    options?: Pick<CodaRowListParams, 'useColumnNames' | 'valueFormat' | 'visibleOnly'>
+    options?: Pick<CodaRowListParams, 'useColumnNames' | 'valueFormat' | 'visibleOnly'> & CodaRequestOptions
 ): Promise<CodaRow | null> {
     const rows = await findRows(
         client,
@@ -189,9 +292,10 @@ export async function upsertRow(
     tableId: string,
     data: Record<string, any>,
     keyColumn: string,
-    options?: { waitForCompletion?: boolean }
+    options?: { waitForCompletion?: boolean } & CodaRequestOptions
 ): Promise<{ action: 'inserted' | 'updated'; rowId?: string; requestId: string }> {
     const keyValue = data[keyColumn];
+    const requestOptions = { signal: options?.signal, timeout: options?.timeout };
 
     // Chercher la ligne existante
     const existingRow = await findRowByColumnValue(
@@ -200,7 +304,7 @@ export async function upsertRow(
         tableId,
         keyColumn,
         keyValue,
-        { useColumnNames: true }
+        { useColumnNames: true, ...requestOptions }
     );
 
     if (existingRow) {
@@ -209,11 +313,13 @@ export async function upsertRow(
             docId,
             tableId,
             existingRow.id,
-            createRow(data)
+            createRow(data),
+            undefined,
+            requestOptions
         );
 
         if (options?.waitForCompletion) {
-            await client.waitForMutation(response.requestId);
+            await client.waitForMutation(response.requestId, undefined, requestOptions);
         }
 
         return {
@@ -227,11 +333,12 @@ export async function upsertRow(
             docId,
             tableId,
             [createRow(data)],
-            { keyColumns: [keyColumn] }
+            { keyColumns: [keyColumn] },
+            requestOptions
         );
 
         if (options?.waitForCompletion) {
-            await client.waitForMutation(response.requestId);
+            await client.waitForMutation(response.requestId, undefined, requestOptions);
         }
 
         return {
@@ -242,43 +349,389 @@ export async function upsertRow(
     }
 }
 
+type RowMetadata = Pick<CodaRow, 'id' | 'index' | 'createdAt' | 'updatedAt' | 'browserLink'>;
+
+type ExportOptions = {
+    useColumnNames?: boolean;
+    includeMetadata?: boolean;
+    valueFormat?: 'simple' | 'simpleWithArrays' | 'rich';
+} & CodaRequestOptions;
+
+function withMetadata(data: Record<string, any>, row: RowMetadata, includeMetadata?: boolean): Record<string, any> {
+    if (!includeMetadata) {
+        return data;
+    }
+    return {
+        ...data,
+        _metadata: {
+            id: row.id,
+            index: row.index,
+            createdAt: row.createdAt,
+            updatedAt: row.updatedAt,
+            browserLink: row.browserLink
+        }
+    };
+}
+
 /**
- * Helper pour exporter une table vers un format JSON
- */
-/**
- * Helper pour exporter une table vers un format JSON
+ * Helper pour exporter une table vers un format JSON.
+ * Avec un schéma, seules les lignes valides sont exportées, les autres étant renvoyées dans `failures`.
  */
 export async function exportTableToJSON(
     client: CodaClient,
     docId: string,
     tableId: string,
-    options?: {
-        useColumnNames?: boolean;
-        includeMetadata?: boolean;
-        valueFormat?: 'simple' | 'simpleWithArrays' | 'rich';
-    }
-): Promise<any[]> {
-    const rows = await getAllRows(client, docId, tableId, {
+    options?: ExportOptions
+): Promise<any[]>;
+export async function exportTableToJSON<T>(
+    client: CodaClient,
+    docId: string,
+    tableId: string,
+    options: ExportOptions & { schema: RowSchema<T> }
+): Promise<{ rows: (T & { _metadata?: RowMetadata })[]; failures: CodaRowParseFailure[] }>;
+export async function exportTableToJSON(
+    client: CodaClient,
+    docId: string,
+    tableId: string,
+    options?: ExportOptions & { schema?: RowSchema<unknown> }
+): Promise<any[] | { rows: unknown[]; failures: CodaRowParseFailure[] }> {
+    const readOptions = {
         useColumnNames: options?.useColumnNames ?? true,
-        valueFormat: options?.valueFormat
+        valueFormat: options?.valueFormat,
+        signal: options?.signal,
+        timeout: options?.timeout
+    };
+
+    if (options?.schema) {
+        const parsed = await getAllRows(client, docId, tableId, { ...readOptions, schema: options.schema });
+        return {
+            rows: parsed.rows.map(row => withMetadata(row.values as Record<string, any>, row, options.includeMetadata)),
+            failures: parsed.failures
+        };
+    }
+
+    const rows = await getAllRows(client, docId, tableId, readOptions);
+    return rows.map(row => withMetadata(rowToObject(row), row, options?.includeMetadata));
+}
+
+/**
+ * Helper pour construire l'arborescence complète des pages d'un document
+ */
+export async function getPageTree(
+    client: CodaClient,
+    docId: string,
+    requestOptions?: CodaRequestOptions
+): Promise<CodaPageTreeNode[]> {
+    const pages: CodaPage[] = [];
+
+    for await (const page of paginateAll(pageToken =>
+        client.listPages(docId, { pageToken }, requestOptions),
+        requestOptions
+    )) {
+        pages.push(page);
+    }
+
+    const nodes = new Map<string, CodaPageTreeNode>();
+    pages.forEach(page => nodes.set(page.id, { page, children: [] }));
+
+    const roots: CodaPageTreeNode[] = [];
+    pages.forEach(page => {
+        const node = nodes.get(page.id)!;
+        const parent = page.parent && nodes.get(page.parent.id);
+        if (parent) {
+            parent.children.push(node);
+        } else {
+            roots.push(node);
+        }
     });
 
-    return rows.map(row => {
-        const data = rowToObject(row);
-
-        if (options?.includeMetadata) {
-            return {
-                ...data,
-                _metadata: {
-                    id: row.id,
-                    index: row.index,
-                    createdAt: row.createdAt,
-                    updatedAt: row.updatedAt,
-                    browserLink: row.browserLink
-                }
-            };
+    // Keep the order of the doc, as listed by each parent
+    nodes.forEach(node => {
+        const order = node.page.children?.map(child => child.id) || [];
+        node.children.sort((a, b) => order.indexOf(a.page.id) - order.indexOf(b.page.id));
+    });
+
+    return roots;
+}
+
+/**
+ * Helper pour appuyer sur un bouton sur toutes les lignes correspondant à un prédicat.
+ * Les appels sont séquentiels et passent par le rate limiter d'écriture du client.
+ */
+export async function pushButtonOnRows(
+    client: CodaClient,
+    docId: string,
+    tableId: string,
+    columnId: string,
+    predicate: (row: CodaRow) => boolean,
+    options?: Pick<CodaRowListParams, 'useColumnNames' | 'valueFormat' | 'visibleOnly'> & {
+        stopOnError?: boolean;
+    } & CodaRequestOptions
+): Promise<{
+    pushed: CodaPushButtonResponse[];
+    failed: { rowId: string; error: Error }[];
+}> {
+    const requestOptions = { signal: options?.signal, timeout: options?.timeout };
+    const rows = await findRows(client, docId, tableId, predicate, options);
+    const pushed: CodaPushButtonResponse[] = [];
+    const failed: { rowId: string; error: Error }[] = [];
+
+    let validated = false;
+
+    for (const row of rows) {
+        try {
+            // The column type only needs to be checked until a push succeeds
+            pushed.push(await client.pushButton(docId, tableId, row.id, columnId, {
+                validateColumn: !validated
+            }, requestOptions));
+            validated = true;
+        } catch (error) {
+            if (options?.stopOnError || error instanceof CodaValidationError || error instanceof CodaAbortError) {
+                throw error;
+            }
+            failed.push({ rowId: row.id, error: error as Error });
         }
+    }
 
-        return data;
+    return { pushed, failed };
+}
+
+/**
+ * Clé unique d'un principal, insensible à la casse pour les emails et domaines
+ */
+function principalKey(principal: CodaPrincipal): string {
+    switch (principal.type) {
+        case 'email':
+            return `email:${principal.email.toLowerCase()}`;
+        case 'domain':
+            return `domain:${principal.domain.toLowerCase()}`;
+        case 'group':
+            return `group:${principal.groupId}`;
+        case 'workspace':
+            return `workspace:${principal.workspaceId}`;
+        case 'anyone':
+            return 'anyone';
+    }
+}
+
+/**
+ * Helper pour calculer les changements entre les permissions actuelles et souhaitées
+ */
+export function diffPermissions(
+    current: CodaPermission[],
+    desired: CodaDesiredPermission[],
+    options?: { removeUnlisted?: boolean }
+): CodaPermissionDiff {
+    const currentByKey = new Map(current.map(permission => [principalKey(permission.principal), permission]));
+    const desiredKeys = new Set<string>();
+    const diff: CodaPermissionDiff = { added: [], removed: [], updated: [] };
+
+    desired.forEach(permission => {
+        const key = principalKey(permission.principal);
+        desiredKeys.add(key);
+
+        const existing = currentByKey.get(key);
+        if (!existing) {
+            diff.added.push(permission);
+        } else if (existing.access !== permission.access) {
+            diff.updated.push({ from: existing, to: permission });
+        }
     });
-}
\ No newline at end of file
+
+    if (options?.removeUnlisted !== false) {
+        diff.removed = current.filter(permission => !desiredKeys.has(principalKey(permission.principal)));
+    }
+
+    return diff;
+}
+
+/**
+ * Helper pour lister toutes les permissions d'un document
+ */
+async function listAllPermissions(client: CodaClient, docId: string, requestOptions: CodaRequestOptions): Promise<CodaPermission[]> {
+    const permissions: CodaPermission[] = [];
+
+    for await (const permission of paginateAll(pageToken =>
+        client.listPermissions(docId, { pageToken }, requestOptions),
+        requestOptions
+    )) {
+        permissions.push(permission);
+    }
+
+    return permissions;
+}
+
+/**
+ * Helper pour aligner les permissions d'un document sur une liste souhaitée.
+ * Les permissions absentes de la liste sont supprimées sauf avec `removeUnlisted: false`.
+ * Un changement d'accès ajoute le nouvel accès avant de retirer l'ancien, sans renvoyer d'email :
+ * en cas d'échec, la personne garde au moins son accès actuel.
+ */
+export async function syncDocPermissions(
+    client: CodaClient,
+    docId: string,
+    desired: CodaDesiredPermission[],
+    options?: {
+        removeUnlisted?: boolean;
+        suppressEmail?: boolean;
+        dryRun?: boolean;
+    } & CodaRequestOptions
+): Promise<CodaPermissionDiff> {
+    const requestOptions = { signal: options?.signal, timeout: options?.timeout };
+    const current = await listAllPermissions(client, docId, requestOptions);
+
+    const diff = diffPermissions(current, desired, options);
+    if (options?.dryRun) {
+        return diff;
+    }
+
+    if (diff.updated.length > 0) {
+        for (const { to } of diff.updated) {
+            await client.addPermission(docId, to.principal, to.access, { suppressEmail: true }, requestOptions);
+        }
+
+        // The API may update the existing permission in place: only the permissions still granting the old access are removed
+        const newAccess = new Map(diff.updated.map(({ from, to }) => [from.id, to.access]));
+        for (const permission of await listAllPermissions(client, docId, requestOptions)) {
+            if (newAccess.has(permission.id) && permission.access !== newAccess.get(permission.id)) {
+                await client.deletePermission(docId, permission.id, requestOptions);
+            }
+        }
+    }
+
+    for (const permission of diff.removed) {
+        await client.deletePermission(docId, permission.id, requestOptions);
+    }
+
+    for (const permission of diff.added) {
+        await client.addPermission(docId, permission.principal, permission.access, { suppressEmail: options?.suppressEmail }, requestOptions);
+    }
+
+    return diff;
+}
+
+/**
+ * Attend que la copie d'un document soit lisible, elle peut ne pas l'être juste après sa création
+ */
+async function waitForDocCopy(
+    client: CodaClient,
+    copyId: string,
+    sourceId: string,
+    options: { maxWaitTime: number; pollInterval: number } & CodaRequestOptions
+): Promise<CodaDoc> {
+    const requestOptions = { signal: options.signal, timeout: options.timeout };
+    const deadline = Date.now() + options.maxWaitTime;
+
+    for (;;) {
+        try {
+            return await client.getDoc(copyId, requestOptions);
+        } catch (error) {
+            if (!(error instanceof CodaApiError) || error.statusCode !== 404) {
+                throw error;
+            }
+        }
+
+        if (Date.now() >= deadline) {
+            throw new CodaApiError(`Copy ${copyId} of doc ${sourceId} is not readable, the original was kept`, 408);
+        }
+        await sleep(options.pollInterval, options.signal);
+    }
+}
+
+/**
+ * Helper pour copier ou déplacer un document dans un dossier désigné par son nom.
+ * L'API ne permet pas de déplacer un document : `mode: 'move'` copie puis supprime l'original,
+ * qui perd alors son URL, ses partages et son historique. Le déplacement doit donc être confirmé
+ * par `deleteSource: true`, et l'original n'est supprimé qu'une fois la copie lisible.
+ */
+export async function placeDocInFolder(
+    client: CodaClient,
+    docId: string,
+    folderName: string,
+    options?: {
+        mode?: 'copy' | 'move';
+        /** Workspace du dossier, celui du document par défaut */
+        workspaceId?: string;
+        /** Crée le dossier s'il n'existe pas */
+        createIfMissing?: boolean;
+        /** Titre de la copie, celui du document par défaut */
+        title?: string;
+        /** Confirme la suppression définitive de l'original, requis avec `mode: 'move'` */
+        deleteSource?: boolean;
+        /** Attente maximale de la copie avant de supprimer l'original, en ms */
+        maxWaitTime?: number;
+        pollInterval?: number;
+    } & CodaRequestOptions
+): Promise<CodaDoc> {
+    const requestOptions = { signal: options?.signal, timeout: options?.timeout };
+    const mode = options?.mode ?? 'copy';
+
+    if (mode === 'move' && options?.deleteSource !== true) {
+        throw new CodaValidationError([
+            `Moving doc ${docId} deletes the original for good, pass deleteSource: true to confirm`
+        ]);
+    }
+
+    const doc = await client.getDoc(docId, requestOptions);
+    const workspaceId = options?.workspaceId ?? doc.workspaceId;
+
+    let folder: CodaFolder | undefined;
+    for await (const candidate of paginateAll(pageToken =>
+        client.listFolders({ workspaceId, pageToken }, requestOptions),
+        requestOptions
+    )) {
+        if (candidate.name === folderName) {
+            folder = candidate;
+            break;
+        }
+    }
+
+    if (!folder) {
+        if (!options?.createIfMissing) {
+            throw new CodaApiError(`Folder "${folderName}" not found in workspace ${workspaceId}`, 404);
+        }
+        folder = await client.createFolder({ name: folderName, workspaceId }, requestOptions);
+    }
+
+    if (mode === 'move' && doc.folderId === folder.id) {
+        return doc;
+    }
+
+    const copy = await client.createDoc(options?.title ?? doc.name, { sourceDoc: docId, folderId: folder.id }, requestOptions);
+
+    if (mode === 'move') {
+        const readableCopy = await waitForDocCopy(client, copy.id, docId, {
+            maxWaitTime: options?.maxWaitTime ?? 30000,
+            pollInterval: options?.pollInterval ?? 1000,
+            ...requestOptions
+        });
+        await client.deleteDoc(docId, requestOptions);
+        return readableCopy;
+    }
+
+    return copy;
+}
+
+/**
+ * Helper pour récupérer toutes les analytics des documents sous forme de série temporelle à plat,
+ * un point par document et par date, triée par date
+ */
+export async function getAnalyticsTimeSeries(
+    client: CodaClient,
+    options?: Omit<CodaDocAnalyticsParams, 'pageToken'> & CodaRequestOptions
+): Promise<CodaDocAnalyticsPoint[]> {
+    const { signal, timeout, ...params } = options || {};
+    const requestOptions = { signal, timeout };
+    const points: CodaDocAnalyticsPoint[] = [];
+
+    for await (const item of paginateAll(pageToken =>
+        client.listDocAnalytics({ ...params, pageToken }, requestOptions),
+        requestOptions
+    )) {
+        item.metrics.forEach(metrics => {
+            points.push({ docId: item.doc.id, title: item.doc.title, ...metrics });
+        });
+    }
+
+    return points.sort((a, b) => a.date.localeCompare(b.date) || a.docId.localeCompare(b.docId));
+}
@@ -13,7 +13,60 @@ export type {  } from './utils';
 
 // Monitoring et diagnostics
 export { MonitoringUtils } from './utils';
-export { RateLimiter, ApiCache, MetricsCollector } from './client';
+
+// Liens navigateur
+export { parseBrowserLink, parseApiLink } from './utils';
+export { RateLimiter, ApiCache, MetricsCollector, MemoryCacheStore, FileCacheStore } from './client';
+export type { CacheStore, CacheEntry, CacheInvalidation, MemoryCacheStoreOptions } from './client';
+export { RetryStrategy, DEFAULT_RETRY_POLICY } from './client';
+export type { RetryPolicy, RetryContext, RetryErrorKind } from './client';
+export { composeMiddlewares, rateLimitMiddleware, metricsMiddleware } from './client';
+export type { CodaMiddleware, CodaNext, CodaRequestContext } from './client';
+export { getDefaultTransport } from './client';
+export type { CodaTransport, CodaTransportRequest, CodaTransportResponse } from './client';
+export { TypedTable } from './client';
+export type { TypedTableOptions, TypedTableListOptions, CodaRowValues, CodaExactRow } from './client';
+
+// Validation
+export { DataValidator } from './validator';
+export type { SchemaValidationOptions } from './validator';
+export {
+    s,
+    parseRow,
+    parseRows,
+    RowSchema,
+    OptionalSchema,
+    StringSchema,
+    NumberSchema,
+    BooleanSchema,
+    DateSchema,
+    EnumSchema,
+    UnknownSchema,
+    ArraySchema,
+    ObjectSchema
+} from './validator';
+export type { CodaInfer, CodaObjectOutput } from './validator';
+
+// Valeurs riches
+export { decodeRichValue, encodeRichValue, decodeRichRow, encodeRichRow } from './values';
+
+// Schéma
+export { normalizeTableSchema, hashSchema, diffSchemas, describeSchemaDiff, assertSchemaCompatible } from './schema';
+
+// Génération de types
+export { generateDocTypes, writeDocTypes, renderTableTypes, columnValueType } from './codegen';
+export type { GenerateTypesOptions } from './codegen';
+
+// Webhooks
+export { createWebhookReceiver } from './webhooks';
+export type {
+    CodaWebhookEvent,
+    CodaWebhookHandler,
+    CodaWebhookHandlers,
+    CodaWebhookDeadLetter,
+    CodaWebhookReceiverOptions,
+    CodaWebhookReceiver
+} from './webhooks';
 
 // Profils de configuration
 export { CONFIG_PROFILES } from './config/profiles';
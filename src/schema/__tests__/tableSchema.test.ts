@@ -0,0 +1,85 @@
+import { assertSchemaCompatible, describeSchemaDiff, diffSchemas, normalizeTableSchema } from '../tableSchema';
+import { CodaColumn, CodaSchemaMismatchError, CodaTable } from '../../types';
+
+const table = { id: 'grid-1', name: 'Tasks', displayColumn: { id: 'c-name' } } as CodaTable;
+
+function column(id: string, name: string, type: string, extra: Partial<CodaColumn> = {}): CodaColumn {
+    return { id, name, calculated: false, display: false, format: { type, isArray: false }, ...extra } as CodaColumn;
+}
+
+const baseColumns = [
+    column('c-name', 'Name', 'text', { display: true }),
+    column('c-due', 'Due', 'date'),
+    column('c-done', 'Done', 'checkbox')
+];
+
+describe('normalizeTableSchema', () => {
+    it('should normalize the columns of a table', () => {
+        const schema = normalizeTableSchema('doc1', table, baseColumns);
+
+        expect(schema).toMatchObject({ docId: 'doc1', tableId: 'grid-1', tableName: 'Tasks', displayColumnId: 'c-name' });
+        expect(schema.columns[1]).toEqual({
+            id: 'c-due', name: 'Due', type: 'date', isArray: false, calculated: false, display: false,
+            format: { type: 'date', isArray: false }
+        });
+    });
+
+    it('should compute a hash independent of the column order', () => {
+        const schema = normalizeTableSchema('doc1', table, baseColumns);
+        const reordered = normalizeTableSchema('doc1', table, [...baseColumns].reverse());
+        const renamed = normalizeTableSchema('doc1', table, [baseColumns[0], column('c-due', 'Deadline', 'date'), baseColumns[2]]);
+
+        expect(reordered.hash).toBe(schema.hash);
+        expect(renamed.hash).not.toBe(schema.hash);
+    });
+});
+
+describe('diffSchemas', () => {
+    it('should report added, removed, renamed and retyped columns', () => {
+        const previous = normalizeTableSchema('doc1', table, baseColumns);
+        const current = normalizeTableSchema('doc1', table, [
+            baseColumns[0],
+            column('c-due', 'Deadline', 'dateTime'),
+            column('c-owner', 'Owner', 'person'),
+            column('c-score', 'Score', 'number')
+        ]);
+
+        const diff = diffSchemas(previous, current);
+
+        expect(diff.changed).toBe(true);
+        expect(diff.added.map(col => col.id)).toEqual(['c-owner', 'c-score']);
+        expect(diff.removed.map(col => col.id)).toEqual(['c-done']);
+        expect(diff.renamed).toEqual([{ columnId: 'c-due', from: 'Due', to: 'Deadline' }]);
+        expect(diff.retyped).toEqual([{
+            columnId: 'c-due', name: 'Deadline', from: { type: 'date', isArray: false }, to: { type: 'dateTime', isArray: false }
+        }]);
+        expect(describeSchemaDiff(diff)).toContain('column "Deadline" changed type from date to dateTime');
+    });
+
+    it('should report nothing for identical schemas', () => {
+        const schema = normalizeTableSchema('doc1', table, baseColumns);
+
+        expect(diffSchemas(schema, schema).changed).toBe(false);
+    });
+});
+
+describe('assertSchemaCompatible', () => {
+    const expected = normalizeTableSchema('doc1', table, baseColumns);
+
+    it('should accept added columns', () => {
+        const current = normalizeTableSchema('doc1', table, [...baseColumns, column('c-new', 'New', 'text')]);
+
+        expect(() => assertSchemaCompatible(expected, current)).not.toThrow();
+        expect(() => assertSchemaCompatible(expected, current, { strict: true })).toThrow(CodaSchemaMismatchError);
+    });
+
+    it('should throw a clear error on breaking changes', () => {
+        const current = normalizeTableSchema('doc1', table, [
+            baseColumns[0],
+            baseColumns[1],
+            column('c-done', 'Done', 'checkbox', { calculated: true })
+        ]);
+
+        expect(() => assertSchemaCompatible(expected, current)).toThrow('Schema of table grid-1 changed: column "Done" became a formula');
+    });
+});
@@ -0,0 +1,128 @@
+import {createHash} from 'crypto';
+import {
+    CodaColumn,
+    CodaColumnSchema,
+    CodaSchemaDiff,
+    CodaSchemaMismatchError,
+    CodaTable,
+    CodaTableSchema
+} from "../types";
+
+/**
+ * Hash of the parts of a schema that integrations depend on
+ */
+export function hashSchema(schema: Pick<CodaTableSchema, 'columns' | 'displayColumnId'>): string {
+    const columns = [...schema.columns]
+        .sort((a, b) => a.id.localeCompare(b.id))
+        .map(column => [column.id, column.name, column.type, column.isArray, column.calculated]);
+
+    return createHash('sha256')
+        .update(JSON.stringify({ columns, displayColumnId: schema.displayColumnId ?? null }))
+        .digest('hex');
+}
+
+/**
+ * Build the normalized schema of a table from its metadata and columns
+ */
+export function normalizeTableSchema(docId: string, table: CodaTable, columns: CodaColumn[]): CodaTableSchema {
+    const columnSchemas: CodaColumnSchema[] = columns.map(column => ({
+        id: column.id,
+        name: column.name,
+        type: column.format?.type ?? 'text',
+        isArray: column.format?.isArray ?? false,
+        calculated: column.calculated ?? false,
+        display: column.display ?? false,
+        format: column.format
+    }));
+    const displayColumnId = table.displayColumn?.id ?? columnSchemas.find(column => column.display)?.id;
+
+    return {
+        docId,
+        tableId: table.id,
+        tableName: table.name,
+        displayColumnId,
+        columns: columnSchemas,
+        hash: hashSchema({ columns: columnSchemas, displayColumnId })
+    };
+}
+
+/**
+ * Compare two schemas of the same table, columns being matched by ID
+ */
+export function diffSchemas(previous: CodaTableSchema, current: CodaTableSchema): CodaSchemaDiff {
+    const previousById = new Map(previous.columns.map(column => [column.id, column]));
+    const currentIds = new Set(current.columns.map(column => column.id));
+    const diff: CodaSchemaDiff = {
+        added: [],
+        removed: previous.columns.filter(column => !currentIds.has(column.id)),
+        renamed: [],
+        retyped: [],
+        calculated: [],
+        changed: false
+    };
+
+    current.columns.forEach(column => {
+        const before = previousById.get(column.id);
+        if (!before) {
+            diff.added.push(column);
+            return;
+        }
+
+        if (before.name !== column.name) {
+            diff.renamed.push({ columnId: column.id, from: before.name, to: column.name });
+        }
+        if (before.type !== column.type || before.isArray !== column.isArray) {
+            diff.retyped.push({ columnId: column.id, name: column.name, from: before.format, to: column.format });
+        }
+        if (before.calculated !== column.calculated) {
+            diff.calculated.push({ columnId: column.id, name: column.name, from: before.calculated, to: column.calculated });
+        }
+    });
+
+    if (previous.displayColumnId !== current.displayColumnId) {
+        diff.displayColumn = { from: previous.displayColumnId, to: current.displayColumnId };
+    }
+
+    diff.changed = diff.added.length > 0 || diff.removed.length > 0 || diff.renamed.length > 0
+        || diff.retyped.length > 0 || diff.calculated.length > 0 || diff.displayColumn !== undefined;
+
+    return diff;
+}
+
+/**
+ * Human readable list of the differences of a schema diff
+ */
+export function describeSchemaDiff(diff: CodaSchemaDiff): string[] {
+    const formatType = (format?: { type?: string; isArray?: boolean }) =>
+        `${format?.type ?? 'unknown'}${format?.isArray ? '[]' : ''}`;
+
+    return [
+        ...diff.added.map(column => `column "${column.name}" (${column.id}) was added`),
+        ...diff.removed.map(column => `column "${column.name}" (${column.id}) was removed`),
+        ...diff.renamed.map(change => `column ${change.columnId} was renamed from "${change.from}" to "${change.to}"`),
+        ...diff.retyped.map(change => `column "${change.name}" changed type from ${formatType(change.from)} to ${formatType(change.to)}`),
+        ...diff.calculated.map(change => `column "${change.name}" ${change.to ? 'became a formula' : 'is no longer a formula'}`),
+        ...(diff.displayColumn ? [`display column changed from ${diff.displayColumn.from} to ${diff.displayColumn.to}`] : [])
+    ];
+}
+
+/**
+ * Throw when the current schema breaks an integration built on the expected one.
+ * Added columns and display column changes are accepted unless `strict` is set.
+ * @throws CodaSchemaMismatchError
+ */
+export function assertSchemaCompatible(expected: CodaTableSchema, current: CodaTableSchema, options?: { strict?: boolean }): void {
+    if (expected.hash === current.hash) {
+        return;
+    }
+
+    const diff = diffSchemas(expected, current);
+    const breaking: CodaSchemaDiff = options?.strict
+        ? diff
+        : { ...diff, added: [], displayColumn: undefined };
+    const changes = describeSchemaDiff(breaking);
+
+    if (changes.length > 0) {
+        throw new CodaSchemaMismatchError(current.tableId, diff, changes);
+    }
+}
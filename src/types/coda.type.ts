@@ -13,7 +13,9 @@ export interface CodaResponse<T> {
     nextPageLink?: string;
 }
 
-export type Method = 'GET' | 'POST' | 'PUT' | 'DELETE';
+export type Method = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+export type RequestType = 'read' | 'write';
 
 export interface CodaUser {
     name: string;
@@ -88,6 +90,25 @@ export interface CodaPublishedDoc {
     categories: string[];
 }
 
+export interface CodaPublishOptions {
+    /** Slug of the published URL */
+    slug?: string;
+    /** Listed in the Coda gallery */
+    discoverable?: boolean;
+    /** Users must sign in to view the doc, earning credit to the owner */
+    earnCredit?: boolean;
+    categoryNames?: string[];
+    mode?: CodaPublishedDoc['mode'];
+}
+
+export interface CodaPublishResponse {
+    requestId: string;
+}
+
+export interface CodaDocCategory {
+    name: string;
+}
+
 export interface CodaFolderReference {
     id: string;
     type: 'folder';
@@ -96,6 +117,24 @@ export interface CodaFolderReference {
     name: string;
 }
 
+export interface CodaFolder extends CodaFolderReference {
+    description?: string;
+    workspace: CodaWorkspaceReference;
+    icon?: CodaIcon;
+    createdAt: string;
+}
+
+export interface CodaFolderCreateRequest {
+    name: string;
+    workspaceId: string;
+    parentFolderId?: string;
+}
+
+export interface CodaDocUpdateRequest {
+    title?: string;
+    iconName?: string;
+}
+
 export interface CodaWorkspaceReference {
     id: string;
     type: 'workspace';
@@ -104,12 +143,31 @@ export interface CodaWorkspaceReference {
     name: string;
 }
 
+export type CodaWorkspaceRole = 'Admin' | 'DocMaker' | 'Editor';
+
+export interface CodaWorkspaceUser {
+    email: string;
+    name: string;
+    role: CodaWorkspaceRole;
+    pictureUrl?: string;
+    registeredAt: string;
+    lastActiveAt?: string;
+    docsLastActiveAt?: string;
+    ownedDocs?: number;
+    docCollaboratorCount?: number;
+}
+
+export interface CodaWorkspaceRoleChangeResponse {
+    roleChangedAt: string;
+}
+
 export type Layout = 'default' | 'areaChart' | 'barChart' | 'bubbleChart' | 'calendar' | 'card' | 'detail' | 'form' | 'ganttChart' | 'lineChart' | 'masterDetail' | 'pieChart' | 'scatterChart' | 'slide' | 'wordCloud';
 
 // Tables
 export interface CodaTable {
     id: string;
     type: 'table';
+    tableType?: 'table' | 'view';
     href: string;
     browserLink: string;
     name: string;
@@ -124,6 +182,14 @@ export interface CodaTable {
     filter?: CodaFilter;
 }
 
+/**
+ * A view shows the rows of its parent table through its own layout, filter and sorts
+ */
+export interface CodaView extends CodaTable {
+    tableType: 'view';
+    parentTable: CodaTableReference;
+}
+
 export interface CodaTableReference {
     id: string;
     type: 'table';
@@ -182,6 +248,126 @@ export interface CodaColumnFormat {
     formulaId?: string;
 }
 
+// Valeurs riches
+/** Shape shared by the schema.org values returned with `valueFormat: 'rich'` */
+export interface CodaRichValueBase {
+    '@context'?: string;
+    '@type': string;
+}
+
+export interface CodaRichMonetaryAmount extends CodaRichValueBase {
+    '@type': 'MonetaryAmount';
+    currency: string;
+    amount: number;
+}
+
+export interface CodaRichImage extends CodaRichValueBase {
+    '@type': 'ImageObject';
+    url: string;
+    name?: string;
+    width?: number;
+    height?: number;
+    status?: string;
+}
+
+export interface CodaRichWebPage extends CodaRichValueBase {
+    '@type': 'WebPage';
+    url: string;
+    name?: string;
+}
+
+export interface CodaRichRowReference extends CodaRichValueBase {
+    '@type': 'StructuredValue';
+    additionalType: 'row';
+    name: string;
+    url?: string;
+    tableId: string;
+    rowId: string;
+    tableUrl?: string;
+}
+
+export interface CodaCurrencyValue {
+    amount: number;
+    currency: string;
+}
+
+export interface CodaPerson {
+    name: string;
+    email: string;
+}
+
+export interface CodaRowReference {
+    tableId: string;
+    rowId: string;
+    name: string;
+    url?: string;
+}
+
+export interface CodaImageValue {
+    url: string;
+    name?: string;
+    width?: number;
+    height?: number;
+}
+
+export interface CodaWebPageValue {
+    url: string;
+    name?: string;
+}
+
+export type CodaDecodedScalar = string | number | boolean | Date | CodaCurrencyValue | CodaPerson | CodaRowReference | CodaImageValue | CodaWebPageValue | null;
+
+export type CodaDecodedValue = CodaDecodedScalar | CodaDecodedScalar[];
+
+export interface CodaRichValueOptions {
+    /**
+     * IANA timezone of the doc, e.g. `Europe/Paris`, used for dates without offset
+     * and to write date and time columns. UTC by default.
+     */
+    timezone?: string;
+}
+
+// Schéma
+export interface CodaColumnSchema {
+    id: string;
+    name: string;
+    /** Format type, e.g. `text`, `number`, `select` */
+    type: string;
+    isArray: boolean;
+    calculated: boolean;
+    display: boolean;
+    format: CodaColumnFormat;
+}
+
+export interface CodaTableSchema {
+    docId: string;
+    tableId: string;
+    tableName: string;
+    displayColumnId?: string;
+    /** Columns in the order returned by the API */
+    columns: CodaColumnSchema[];
+    /** Hash of the column IDs, names, types and calculated flags and of the display column, independent of the column order */
+    hash: string;
+}
+
+export interface CodaSchemaDiff {
+    added: CodaColumnSchema[];
+    removed: CodaColumnSchema[];
+    renamed: { columnId: string; from: string; to: string }[];
+    retyped: { columnId: string; name: string; from: CodaColumnFormat; to: CodaColumnFormat }[];
+    /** Columns that became formulas or stopped being one */
+    calculated: { columnId: string; name: string; from: boolean; to: boolean }[];
+    displayColumn?: { from?: string; to?: string };
+    /** At least one difference was found */
+    changed: boolean;
+}
+
+export interface CodaSelectOption {
+    name: string;
+    backgroundColor?: string;
+    foregroundColor?: string;
+}
+
 // Lignes
 export interface CodaRow {
     id: string;
@@ -196,6 +382,19 @@ export interface CodaRow {
     parent: CodaTableReference;
 }
 
+/**
+ * Row read through a typed table, its values keyed by the keys of `Row`
+ */
+export interface CodaTypedRow<Row> {
+    id: string;
+    name: string;
+    index: number;
+    browserLink: string;
+    createdAt: string;
+    updatedAt: string;
+    values: Row;
+}
+
 export interface CodaRowRequest {
     cells: CodaCell[];
     keyColumns?: string[];
@@ -206,6 +405,344 @@ export interface CodaCell {
     value: any;
 }
 
+// Schémas de lignes
+export interface CodaSchemaIssue {
+    /** Keys and array indexes leading to the invalid value, empty for the value itself */
+    path: (string | number)[];
+    message: string;
+}
+
+export type CodaParseResult<T> =
+    | { success: true; data: T }
+    | { success: false; issues: CodaSchemaIssue[] };
+
+export interface CodaRowParseFailure {
+    rowId: string;
+    rowName: string;
+    index: number;
+    issues: CodaSchemaIssue[];
+}
+
+export interface CodaParsedRows<T> {
+    rows: CodaTypedRow<T>[];
+    failures: CodaRowParseFailure[];
+}
+
+// Pages
+export interface CodaPageReference {
+    id: string;
+    type: 'page';
+    href: string;
+    browserLink: string;
+    name: string;
+}
+
+export interface CodaImage {
+    browserLink: string;
+    type?: string;
+    width?: number;
+    height?: number;
+}
+
+export interface CodaPersonValue {
+    '@context'?: string;
+    '@type'?: 'Person';
+    name: string;
+    email: string;
+}
+
+export interface CodaPage {
+    id: string;
+    type: 'page';
+    href: string;
+    browserLink: string;
+    name: string;
+    subtitle?: string;
+    icon?: CodaIcon;
+    image?: CodaImage;
+    contentType: 'canvas' | 'embed' | 'syncPage';
+    isHidden: boolean;
+    isEffectivelyHidden: boolean;
+    parent?: CodaPageReference;
+    children: CodaPageReference[];
+    authors?: CodaPersonValue[];
+    createdAt?: string;
+    createdBy?: CodaPersonValue;
+    updatedAt?: string;
+    updatedBy?: CodaPersonValue;
+}
+
+export interface CodaCanvasContent {
+    format: 'html' | 'markdown';
+    content: string;
+}
+
+export interface CodaPageCreateRequest {
+    name?: string;
+    subtitle?: string;
+    iconName?: string;
+    imageUrl?: string;
+    parentPageId?: string;
+    pageContent?: {
+        type: 'canvas';
+        canvasContent: CodaCanvasContent;
+    };
+}
+
+export interface CodaPageUpdateRequest {
+    name?: string;
+    subtitle?: string;
+    iconName?: string;
+    imageUrl?: string;
+    isHidden?: boolean;
+    contentUpdate?: {
+        insertionMode: 'append' | 'replace';
+        canvasContent: CodaCanvasContent;
+    };
+}
+
+export type CodaPageExportFormat = 'html' | 'markdown';
+
+export interface CodaPageExportResponse {
+    id: string;
+    status: 'inProgress' | 'failed' | 'complete';
+    href: string;
+}
+
+export interface CodaPageExportStatus {
+    id: string;
+    status: 'inProgress' | 'failed' | 'complete';
+    href: string;
+    downloadLink?: string;
+    error?: string;
+}
+
+export interface CodaPageExportOptions {
+    format: CodaPageExportFormat;
+    maxWaitTime?: number;
+    pollInterval?: number;
+}
+
+export interface CodaPageTreeNode {
+    page: CodaPage;
+    children: CodaPageTreeNode[];
+}
+
+// Formulas
+export interface CodaFormulaReference {
+    id: string;
+    type: 'formula';
+    href: string;
+    name: string;
+    parent?: CodaPageReference;
+}
+
+export interface CodaFormula extends CodaFormulaReference {
+    value: any;
+}
+
+// Controls
+export type CodaControlType =
+    'aiBlock' | 'button' | 'checkbox' | 'datePicker' | 'dateRangePicker' | 'dateTimePicker' | 'lookup' |
+    'multiselect' | 'select' | 'scale' | 'slider' | 'reaction' | 'textbox' | 'timePicker';
+
+export interface CodaControlReference {
+    id: string;
+    type: 'control';
+    href: string;
+    name: string;
+    parent?: CodaPageReference;
+}
+
+export interface CodaControl extends CodaControlReference {
+    controlType: CodaControlType;
+    value: any;
+}
+
+// Permissions
+export type CodaAccessType = 'readonly' | 'write' | 'comment' | 'none';
+
+export type CodaPrincipal =
+    { type: 'email'; email: string } |
+    { type: 'group'; groupId: string; groupName?: string } |
+    { type: 'domain'; domain: string } |
+    { type: 'workspace'; workspaceId: string } |
+    { type: 'anyone' };
+
+export interface CodaPermission {
+    id: string;
+    principal: CodaPrincipal;
+    access: CodaAccessType;
+}
+
+export interface CodaDesiredPermission {
+    principal: CodaPrincipal;
+    access: CodaAccessType;
+}
+
+export interface CodaPermissionDiff {
+    added: CodaDesiredPermission[];
+    removed: CodaPermission[];
+    updated: { from: CodaPermission; to: CodaDesiredPermission }[];
+}
+
+export interface CodaAclMetadata {
+    canShare: boolean;
+    canShareWithWorkspace: boolean;
+    canShareWithOrg: boolean;
+    canCopy: boolean;
+}
+
+export interface CodaAclSettings {
+    allowEditorsToChangePermissions: boolean;
+    allowCopying: boolean;
+    allowViewersToRequestEditing: boolean;
+}
+
+export interface CodaPrincipalSearchResult {
+    users: { name: string; email: string; type?: string; pictureLink?: string }[];
+    groups: { name: string; groupId: string; type?: string }[];
+}
+
+// Liens navigateur
+interface CodaBrowserLinkBase {
+    /** The link as given */
+    browserLink: string;
+    /** Name of the target, only known once resolved by the API */
+    name?: string;
+    /** API link of the target, only known once resolved by the API */
+    href?: string;
+}
+
+export interface CodaDocLink extends CodaBrowserLinkBase {
+    type: 'doc';
+    docId: string;
+}
+
+export interface CodaPageLink extends CodaBrowserLinkBase {
+    type: 'page';
+    docId: string;
+    pageId: string;
+}
+
+export interface CodaTableLink extends CodaBrowserLinkBase {
+    type: 'table';
+    docId: string;
+    tableId: string;
+    /** Page displaying the table, when the link contains it */
+    pageId?: string;
+}
+
+export interface CodaRowLink extends CodaBrowserLinkBase {
+    type: 'row';
+    docId: string;
+    tableId: string;
+    rowId: string;
+    pageId?: string;
+}
+
+export interface CodaColumnLink extends CodaBrowserLinkBase {
+    type: 'column';
+    docId: string;
+    tableId: string;
+    columnId: string;
+}
+
+export type CodaBrowserLink = CodaDocLink | CodaPageLink | CodaTableLink | CodaRowLink | CodaColumnLink;
+
+export interface CodaResolveBrowserLinkResponse {
+    type: 'apiLink';
+    href: string;
+    browserLink: string;
+    resource: {
+        type: string;
+        id: string;
+        name?: string;
+        href: string;
+    };
+}
+
+// Analytics
+/** Date of an analytics range, `YYYY-MM-DD` or a Date taken in UTC */
+export type CodaAnalyticsDate = string | Date;
+
+export type CodaAnalyticsScale = 'daily' | 'cumulative';
+
+export interface CodaDocAnalyticsMetrics {
+    date: string;
+    views: number;
+    copies: number;
+    likes: number;
+    sessionsMobile: number;
+    sessionsDesktop: number;
+    sessionsOther: number;
+    totalSessions: number;
+}
+
+export interface CodaDocAnalyticsItem {
+    doc: {
+        id: string;
+        type: 'doc';
+        href: string;
+        browserLink: string;
+        title: string;
+        icon?: CodaIcon;
+        createdAt: string;
+        publishedAt?: string;
+    };
+    metrics: CodaDocAnalyticsMetrics[];
+}
+
+export interface CodaPageAnalyticsMetrics {
+    date: string;
+    views: number;
+    sessions: number;
+    users: number;
+    averageSecondsViewed?: number;
+    medianSecondsViewed?: number;
+}
+
+export interface CodaPageAnalyticsItem {
+    page: CodaPageReference;
+    metrics: CodaPageAnalyticsMetrics[];
+}
+
+export interface CodaDocAnalyticsSummary {
+    totalSessions: number;
+    totalViews: number;
+    totalCopies: number;
+    totalLikes: number;
+}
+
+export interface CodaPackAnalyticsMetrics {
+    date: string;
+    docInstalls: number;
+    workspaceInstalls: number;
+    numFormulaInvocations: number;
+    numActionInvocations: number;
+    numSyncInvocations: number;
+    numMetadataInvocations: number;
+    docsActivelyUsing: number;
+    workspacesActivelyUsing: number;
+    revenueUsd?: string;
+}
+
+export interface CodaPackAnalyticsItem {
+    pack: {
+        id: number;
+        name: string;
+        logoUrl?: string;
+        createdAt: string;
+    };
+    metrics: CodaPackAnalyticsMetrics[];
+}
+
+/** One point of a flattened doc analytics time series */
+export interface CodaDocAnalyticsPoint extends CodaDocAnalyticsMetrics {
+    docId: string;
+    title: string;
+}
+
 // Mutations
 export interface CodaMutationStatus {
     id: string;
@@ -219,6 +756,23 @@ export interface CodaMutationResponse {
     addedRowIds?: string[];
 }
 
+export interface CodaPageMutationResponse {
+    requestId: string;
+    id: string;
+}
+
+export interface CodaPushButtonResponse {
+    requestId: string;
+    rowId: string;
+    columnId: string;
+}
+
+export interface CodaAutomationTriggerResponse {
+    requestId: string;
+    /** Final status of the automation, only set when waiting for completion */
+    status?: CodaMutationStatus;
+}
+
 // Paramètres de requête
 export interface CodaListParams {
     limit?: number;
@@ -238,10 +792,55 @@ export interface CodaDocListParams extends CodaListParams {
     folderId?: string;
 }
 
+export interface CodaAnalyticsDateRange {
+    sinceDate?: CodaAnalyticsDate;
+    untilDate?: CodaAnalyticsDate;
+}
+
+export interface CodaDocAnalyticsParams extends CodaListParams, CodaAnalyticsDateRange {
+    docIds?: string[];
+    workspaceId?: string;
+    query?: string;
+    isPublished?: boolean;
+    scale?: CodaAnalyticsScale;
+}
+
+export interface CodaPageAnalyticsParams extends CodaAnalyticsDateRange {
+    limit?: number;
+    pageToken?: string;
+}
+
+export interface CodaDocAnalyticsSummaryParams extends CodaAnalyticsDateRange {
+    workspaceId?: string;
+    isPublished?: boolean;
+}
+
+export interface CodaPackAnalyticsParams extends CodaListParams, CodaAnalyticsDateRange {
+    packIds?: number[];
+    workspaceId?: string;
+    query?: string;
+    scale?: CodaAnalyticsScale;
+}
+
+export interface CodaFolderListParams extends CodaListParams {
+    workspaceId?: string;
+    isStarred?: boolean;
+}
+
+export interface CodaWorkspaceListParams extends CodaListParams {
+    workspaceIds?: string[];
+}
+
+export interface CodaWorkspaceUserListParams extends CodaListParams {
+    includedRoles?: CodaWorkspaceRole[];
+}
+
 export interface CodaTableListParams extends CodaListParams {
     tableTypes?: ('table' | 'view')[];
 }
 
+export type CodaViewListParams = Omit<CodaTableListParams, 'tableTypes'>;
+
 export interface CodaRowListParams extends CodaListParams {
     query?: string;
     useColumnNames?: boolean;
@@ -250,6 +849,16 @@ export interface CodaRowListParams extends CodaListParams {
     syncToken?: string;
 }
 
+/**
+ * Per-call options accepted by every CodaClient method
+ */
+export interface CodaRequestOptions {
+    /** Cancels the call, including rate limit waits, retries and polling */
+    signal?: AbortSignal;
+    /** Timeout of each HTTP attempt in milliseconds, overrides the client timeout */
+    timeout?: number;
+}
+
 // Erreurs
 export interface CodaError {
     statusCode: number;
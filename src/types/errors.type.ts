@@ -1,13 +1,66 @@
-import {CodaApiError} from "./coda.type";
+import {CodaApiError, CodaSchemaDiff} from "./coda.type";
 
 export class CodaRateLimitError extends CodaApiError {
-    constructor(public retryAfter: number) {
+    /** @param retryAfter Delay in seconds sent by Coda, undefined when the response has no usable Retry-After */
+    constructor(public retryAfter?: number) {
         super('Rate limit exceeded', 429);
     }
 }
 
+/**
+ * Raised when an HTTP attempt exceeds its timeout
+ */
+export class CodaTimeoutError extends CodaApiError {
+    constructor(public readonly timeout: number) {
+        super(`Request timed out after ${timeout}ms`, 408);
+        this.name = 'CodaTimeoutError';
+    }
+}
+
+/**
+ * Raised when a request is cancelled through its AbortSignal
+ */
+export class CodaAbortError extends Error {
+    constructor(public readonly reason?: unknown) {
+        super('Request aborted');
+        this.name = 'CodaAbortError';
+    }
+}
+
+/**
+ * Raised when a browser link does not point to a Coda resource
+ */
+export class CodaInvalidLinkError extends CodaApiError {
+    constructor(public readonly url: string, reason: string, details?: any) {
+        super(`Invalid Coda link "${url}": ${reason}`, 400, details);
+        this.name = 'CodaInvalidLinkError';
+    }
+}
+
+/**
+ * Invalid cell found when checking a write against the table schema
+ */
+export interface CodaCellValidationError {
+    /** Index of the row in the written rows, 0 for a single row update */
+    rowIndex: number;
+    /** Column as written, ID or name */
+    column: string;
+    value: unknown;
+    message: string;
+}
+
 export class CodaValidationError extends CodaApiError {
-    constructor(public validationErrors: string[]) {
-        super('Validation failed', 400);
+    constructor(public validationErrors: string[], public readonly cellErrors: CodaCellValidationError[] = []) {
+        super('Validation failed', 400, cellErrors.length > 0 ? cellErrors : undefined);
     }
-}
\ No newline at end of file
+}
+
+/**
+ * Raised when the schema of a table changed in a way that breaks writes by column name or type
+ */
+export class CodaSchemaMismatchError extends CodaApiError {
+    constructor(public readonly tableId: string, public readonly diff: CodaSchemaDiff, public readonly changes: string[]) {
+        super(`Schema of table ${tableId} changed: ${changes.join('; ')}`, 409, diff);
+        this.name = 'CodaSchemaMismatchError';
+    }
+}
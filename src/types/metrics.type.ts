@@ -8,4 +8,33 @@ export interface RequestMetrics {
     maxResponseTime: number;
     cacheHits: number;
     lastRequestTime: number;
-}
\ No newline at end of file
+}
+
+export interface DetailedRequestMetrics extends RequestMetrics {
+    successRate: number;
+    errorRate: number;
+    cacheHitRate: number;
+    recentResponseTimes: number[];
+}
+
+export interface CacheStats {
+    size: number;
+    hits: number;
+    misses: number;
+    hitRate: number;
+    /** Entries dropped because they expired or the store was full */
+    evictions: number;
+}
+
+export interface RateLimiterStats {
+    totalRequests: number;
+    recentRequests: number;
+    readRequests: number;
+    writeRequests: number;
+}
+
+export interface ClientDetailedStats {
+    metrics?: DetailedRequestMetrics;
+    cache?: CacheStats;
+    rateLimiter?: RateLimiterStats;
+}
@@ -0,0 +1,58 @@
+import { parseApiLink, parseBrowserLink } from '../browserLink';
+import { CodaInvalidLinkError } from '../../types';
+
+describe('parseBrowserLink', () => {
+    it('should parse a doc link', () => {
+        expect(parseBrowserLink('https://coda.io/d/Team-Roadmap_dAbCdEf12')).toEqual({
+            type: 'doc',
+            docId: 'AbCdEf12',
+            browserLink: 'https://coda.io/d/Team-Roadmap_dAbCdEf12'
+        });
+        expect(parseBrowserLink('https://coda.io/d/_dAbCdEf12').docId).toBe('AbCdEf12');
+    });
+
+    it('should parse a page link', () => {
+        const link = parseBrowserLink('https://coda.io/d/Team-Roadmap_dAbCdEf12/Q3-Goals_suXyZ9');
+
+        expect(link).toMatchObject({ type: 'page', docId: 'AbCdEf12', pageId: 'XyZ9' });
+    });
+
+    it('should parse table and row links', () => {
+        const table = parseBrowserLink('https://coda.io/d/Team-Roadmap_dAbCdEf12/Q3-Goals_suXyZ9#Tasks_tuGr1d');
+        const row = parseBrowserLink('https://coda.io/d/_dAbCdEf12#_tuGr1d/r42');
+
+        expect(table).toMatchObject({ type: 'table', docId: 'AbCdEf12', pageId: 'XyZ9', tableId: 'Gr1d' });
+        expect(row).toMatchObject({ type: 'row', docId: 'AbCdEf12', tableId: 'Gr1d', rowId: '42' });
+    });
+
+    it('should throw on invalid links', () => {
+        expect(() => parseBrowserLink('not a url')).toThrow(CodaInvalidLinkError);
+        expect(() => parseBrowserLink('https://example.com/d/Doc_dAbC')).toThrow(CodaInvalidLinkError);
+        expect(() => parseBrowserLink('https://coda.io/@acme/template')).toThrow(CodaInvalidLinkError);
+    });
+});
+
+describe('parseApiLink', () => {
+    it('should map API links to typed links', () => {
+        const browserLink = 'https://coda.io/d/_dAbC#_tuGr1d/r1';
+
+        expect(parseApiLink('https://coda.io/apis/v1/docs/AbC/tables/grid-1/rows/i-1', browserLink, 'Row 1')).toEqual({
+            type: 'row',
+            docId: 'AbC',
+            tableId: 'grid-1',
+            rowId: 'i-1',
+            name: 'Row 1',
+            href: 'https://coda.io/apis/v1/docs/AbC/tables/grid-1/rows/i-1',
+            browserLink
+        });
+        expect(parseApiLink('https://coda.io/apis/v1/docs/AbC/tables/grid-1/columns/c-1', browserLink))
+            .toMatchObject({ type: 'column', tableId: 'grid-1', columnId: 'c-1' });
+        expect(parseApiLink('https://coda.io/apis/v1/docs/AbC/pages/canvas-1', browserLink))
+            .toMatchObject({ type: 'page', pageId: 'canvas-1' });
+    });
+
+    it('should reject unsupported resources', () => {
+        expect(() => parseApiLink('https://coda.io/apis/v1/docs/AbC/formulas/f-1', 'https://coda.io/d/_dAbC'))
+            .toThrow(CodaInvalidLinkError);
+    });
+});
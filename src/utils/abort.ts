@@ -0,0 +1,34 @@
+import {CodaAbortError} from "../types";
+
+/**
+ * Throw a CodaAbortError if the signal is already aborted
+ */
+export function throwIfAborted(signal?: AbortSignal): void {
+    if (signal?.aborted) {
+        throw new CodaAbortError(signal.reason);
+    }
+}
+
+/**
+ * Wait for a delay, rejecting with a CodaAbortError as soon as the signal is aborted
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+        if (signal?.aborted) {
+            reject(new CodaAbortError(signal.reason));
+            return;
+        }
+
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(new CodaAbortError(signal?.reason));
+        };
+
+        const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+}
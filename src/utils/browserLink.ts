@@ -0,0 +1,93 @@
+import {CodaBrowserLink, CodaInvalidLinkError} from "../types";
+
+const DOC_SEGMENT = /_d([A-Za-z0-9-]+)$/;
+const PAGE_SEGMENT = /_su([A-Za-z0-9-]+)$/;
+const TABLE_FRAGMENT = /_tu([A-Za-z0-9-]+)(?:\/r([A-Za-z0-9-]+))?$/;
+const API_PATH = /\/docs\/([^/]+)(?:\/(pages|tables)\/([^/]+)(?:\/(rows|columns)\/([^/]+))?)?\/?$/;
+
+function toUrl(link: string): URL {
+    try {
+        return new URL(link.trim());
+    } catch {
+        throw new CodaInvalidLinkError(link, 'not a valid URL');
+    }
+}
+
+function decode(link: string, value: string): string {
+    try {
+        return decodeURIComponent(value);
+    } catch {
+        throw new CodaInvalidLinkError(link, 'malformed URL encoding');
+    }
+}
+
+/**
+ * Parse a Coda browser link without calling the API.
+ * Supports the `/d/<slug>_d<docId>/<page>_su<pageId>#<table>_tu<tableId>/r<rowId>` shapes.
+ * Page, table and row identifiers are the ones found in the URL, which can differ from the API IDs:
+ * use `CodaClient.resolveBrowserLink` to get the canonical ones.
+ * @throws CodaInvalidLinkError if the link is not a Coda doc link
+ */
+export function parseBrowserLink(browserLink: string): CodaBrowserLink {
+    const url = toUrl(browserLink);
+    if (url.hostname !== 'coda.io' && !url.hostname.endsWith('.coda.io')) {
+        throw new CodaInvalidLinkError(browserLink, 'not a coda.io link');
+    }
+
+    const segments = url.pathname.split('/').filter(Boolean).map(segment => decode(browserLink, segment));
+    const docMatch = segments[0] === 'd' && segments[1] ? segments[1].match(DOC_SEGMENT) : null;
+    if (!docMatch) {
+        throw new CodaInvalidLinkError(browserLink, 'no doc ID found, expected /d/<slug>_d<docId>');
+    }
+
+    const docId = docMatch[1];
+    const pageId = segments[2]?.match(PAGE_SEGMENT)?.[1];
+    const tableMatch = decode(browserLink, url.hash.slice(1)).match(TABLE_FRAGMENT);
+
+    if (tableMatch) {
+        const tableId = tableMatch[1];
+        const rowId = tableMatch[2];
+        return rowId
+            ? { type: 'row', docId, tableId, rowId, pageId, browserLink }
+            : { type: 'table', docId, tableId, pageId, browserLink };
+    }
+
+    if (pageId) {
+        return { type: 'page', docId, pageId, browserLink };
+    }
+
+    return { type: 'doc', docId, browserLink };
+}
+
+/**
+ * Build a typed link from the API link of a resource, e.g. `https://coda.io/apis/v1/docs/{docId}/tables/{tableId}`
+ * @throws CodaInvalidLinkError if the API link does not point to a doc, page, table, row or column
+ */
+export function parseApiLink(href: string, browserLink: string, name?: string): CodaBrowserLink {
+    const match = toUrl(href).pathname.match(API_PATH);
+    if (!match) {
+        throw new CodaInvalidLinkError(browserLink, `unsupported resource ${href}`);
+    }
+
+    const [, docId, parentKind, parentId, childKind, childId] = match.map(part => part && decode(browserLink, part));
+    const base = { browserLink, name, href };
+
+    if (parentKind === 'pages') {
+        if (childKind) {
+            throw new CodaInvalidLinkError(browserLink, `unsupported resource ${href}`);
+        }
+        return { type: 'page', docId, pageId: parentId, ...base };
+    }
+
+    if (parentKind === 'tables') {
+        if (childKind === 'rows') {
+            return { type: 'row', docId, tableId: parentId, rowId: childId, ...base };
+        }
+        if (childKind === 'columns') {
+            return { type: 'column', docId, tableId: parentId, columnId: childId, ...base };
+        }
+        return { type: 'table', docId, tableId: parentId, ...base };
+    }
+
+    return { type: 'doc', docId, ...base };
+}
@@ -1,3 +1,5 @@
 export * from './clientFactory';
 export * from './logger';
-export * from './monitoring';
\ No newline at end of file
+export * from './monitoring';
+export * from './abort';
+export * from './browserLink';
@@ -1,4 +1,4 @@
-import { CodaClient } from '../client';
+import { CodaClient, MetricsCollector } from '../client';
 import {HealthReport, PerformanceAlert, RequestMetrics} from "../types";
 
 /**
@@ -36,7 +36,7 @@ export class MonitoringUtils {
                 }
 
                 // Check success rate
-                const successRate = metrics.successfulRequests / metrics.totalRequests;
+                const successRate = MetricsCollector.successRate(metrics);
 
                 if (successRate < opts.minSuccessRate) {
                     alerts.push({
@@ -86,7 +86,7 @@ export class MonitoringUtils {
             return 'HEALTHY';
         }
 
-        const successRate = metrics.successfulRequests / metrics.totalRequests;
+        const successRate = MetricsCollector.successRate(metrics);
         const avgResponseTime = metrics.avgResponseTime;
 
         if (successRate >= 0.98 && avgResponseTime < 2000) {
@@ -0,0 +1,116 @@
+import { s, parseRows, CodaInfer } from '../index';
+import { CodaRow, CodaValidationError } from '../../types';
+
+describe('Row schemas', () => {
+    const task = s.object({
+        Name: s.string(),
+        Due: s.date().optional(),
+        Points: s.number().int(),
+        Done: s.boolean(),
+        Status: s.enum(['Todo', 'Done'] as const),
+        Tags: s.array(s.string()).optional()
+    });
+
+    it('should infer the type of the parsed values', () => {
+        type Task = CodaInfer<typeof task>;
+        const value: Task = { Name: 'Write docs', Points: 3, Done: false, Status: 'Todo' };
+        // @ts-expect-error Points must be a number
+        const invalid: Task = { Name: 'Write docs', Points: '3', Done: false, Status: 'Todo' };
+
+        expect(value.Due).toBeUndefined();
+        expect(invalid).toBeDefined();
+    });
+
+    it('should parse valid values, dates being read from ISO strings', () => {
+        const result = task.safeParse({
+            Name: 'Write docs',
+            Due: '2024-01-15T00:00:00.000Z',
+            Points: 3,
+            Done: true,
+            Status: 'Done',
+            Tags: ['docs'],
+            Other: 'dropped'
+        });
+
+        expect(result).toEqual({
+            success: true,
+            data: {
+                Name: 'Write docs',
+                Due: new Date('2024-01-15T00:00:00.000Z'),
+                Points: 3,
+                Done: true,
+                Status: 'Done',
+                Tags: ['docs']
+            }
+        });
+    });
+
+    it('should read empty cells as missing optional values', () => {
+        const result = task.parse({ Name: '', Due: '', Points: 0, Done: false, Status: 'Todo', Tags: null });
+
+        expect(result).toEqual({ Name: '', Points: 0, Done: false, Status: 'Todo' });
+        expect('Due' in result).toBe(false);
+    });
+
+    it('should report every issue with its path', () => {
+        const result = task.safeParse({ Due: 'someday', Points: 2.5, Done: 'yes', Status: 'Blocked', Tags: ['docs', 3] });
+
+        expect(result).toEqual({
+            success: false,
+            issues: [
+                { path: ['Name'], message: 'required' },
+                { path: ['Due'], message: 'expected a date, got "someday"' },
+                { path: ['Points'], message: 'expected an integer' },
+                { path: ['Done'], message: 'expected a boolean, got "yes"' },
+                { path: ['Status'], message: 'expected one of Todo, Done, got "Blocked"' },
+                { path: ['Tags', 1], message: 'expected a string, got 3' }
+            ]
+        });
+    });
+
+    it('should keep schemas immutable when adding rules', () => {
+        const number = s.number();
+        const bounded = number.min(0).max(10);
+
+        expect(number.safeParse(42).success).toBe(true);
+        expect(bounded.safeParse(42)).toEqual({ success: false, issues: [{ path: [], message: 'expected a number <= 10' }] });
+        expect(s.string().nonEmpty().safeParse(' ').success).toBe(false);
+    });
+
+    it('should throw a CodaValidationError from parse', () => {
+        expect(() => task.parse({ Name: 'Write docs', Points: 'three', Done: true, Status: 'Todo' })).toThrow(CodaValidationError);
+        try {
+            s.object({ Points: s.number() }).parse({ Points: 'three' });
+        } catch (error) {
+            expect((error as CodaValidationError).validationErrors).toEqual(['Points: expected a number, got "three"']);
+        }
+    });
+
+    it('should split valid rows from failures', () => {
+        const row = (id: string, index: number, values: Record<string, any>) => ({
+            id,
+            type: 'row',
+            href: `https://coda.io/apis/v1/docs/doc1/tables/grid-1/rows/${id}`,
+            name: `Row ${index}`,
+            index,
+            browserLink: `https://coda.io/d/_ddoc1#_tugrid-1/_r${id}`,
+            createdAt: '2024-01-01T00:00:00Z',
+            updatedAt: '2024-01-02T00:00:00Z',
+            values
+        }) as CodaRow;
+
+        const result = parseRows([
+            row('i-1', 0, { Name: 'Write docs', Points: 3, Done: false, Status: 'Todo' }),
+            row('i-2', 1, { Name: 'Fix bug', Points: '', Done: false, Status: 'Todo' })
+        ], task);
+
+        expect(result.rows).toEqual([expect.objectContaining({
+            id: 'i-1',
+            index: 0,
+            values: { Name: 'Write docs', Points: 3, Done: false, Status: 'Todo' }
+        })]);
+        expect(result.failures).toEqual([
+            { rowId: 'i-2', rowName: 'Row 1', index: 1, issues: [{ path: ['Points'], message: 'required' }] }
+        ]);
+    });
+});
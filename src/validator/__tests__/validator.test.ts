@@ -1,4 +1,5 @@
 import { DataValidator } from '../index';
+import { CodaTableSchema, CodaValidationError } from '../../types';
 
 describe('DataValidator', () => {
     describe('validateRowData', () => {
@@ -142,4 +143,89 @@ describe('DataValidator', () => {
             expect(errors.length).toBeGreaterThan(0);
         });
     });
-});
\ No newline at end of file
+});
+
+describe('DataValidator against a table schema', () => {
+    const column = (id: string, name: string, type: string, extra: { isArray?: boolean; calculated?: boolean } = {}) => ({
+        id,
+        name,
+        type,
+        isArray: extra.isArray ?? false,
+        calculated: extra.calculated ?? false,
+        display: false,
+        format: { type, isArray: extra.isArray ?? false }
+    });
+
+    const schema: CodaTableSchema = {
+        docId: 'doc1',
+        tableId: 'grid-1',
+        tableName: 'Tasks',
+        columns: [
+            column('c-name', 'Name', 'text'),
+            column('c-estimate', 'Estimate', 'number'),
+            column('c-due', 'Due', 'date'),
+            column('c-done', 'Done', 'checkbox'),
+            column('c-status', 'Status', 'select'),
+            column('c-tags', 'Tags', 'select', { isArray: true }),
+            column('c-total', 'Total', 'number', { calculated: true })
+        ],
+        hash: 'hash'
+    };
+    const selectOptions = { 'c-status': ['Todo', 'Done'], 'c-tags': ['docs', 'bug'] };
+
+    it('should accept valid rows', () => {
+        const errors = DataValidator.validateRows([{
+            cells: [
+                { column: 'Name', value: 'Write docs' },
+                { column: 'c-estimate', value: '2.5' },
+                { column: 'Due', value: new Date('2024-01-15') },
+                { column: 'Done', value: false },
+                { column: 'Status', value: 'Todo' },
+                { column: 'Tags', value: ['docs', 'bug'] }
+            ]
+        }, {
+            cells: [{ column: 'Due', value: '2024-01-15' }, { column: 'Estimate', value: '' }]
+        }], schema, { selectOptions });
+
+        expect(errors).toEqual([]);
+    });
+
+    it('should report each invalid cell with its row index', () => {
+        const errors = DataValidator.validateRows([
+            { cells: [{ column: 'Name', value: 'Valid row' }] },
+            {
+                cells: [
+                    { column: 'Nmae', value: 'typo' },
+                    { column: 'Total', value: 3 },
+                    { column: 'Estimate', value: 'two' },
+                    { column: 'Due', value: 'next week' },
+                    { column: 'Done', value: 'yes' },
+                    { column: 'Status', value: 'Blocked' },
+                    { column: 'Name', value: ['a', 'b'] },
+                    { column: 'Tags', value: ['docs', 'feature'] }
+                ]
+            }
+        ], schema, { selectOptions });
+
+        expect(errors.map(error => [error.rowIndex, error.column])).toEqual([
+            [1, 'Nmae'], [1, 'Total'], [1, 'Estimate'], [1, 'Due'], [1, 'Done'], [1, 'Status'], [1, 'Name'], [1, 'Tags']
+        ]);
+        expect(errors[1].message).toBe('formula columns cannot be written');
+        expect(errors[5].message).toBe('"Blocked" is not an option of the column (Todo, Done)');
+        expect(errors[6].message).toBe('arrays are not allowed in a text column');
+    });
+
+    it('should throw a CodaValidationError with the cell details', () => {
+        const rows = [{ cells: [{ column: 'Done', value: 1 }] }];
+
+        expect(() => DataValidator.assertValidRows(rows, schema)).toThrow(CodaValidationError);
+        try {
+            DataValidator.assertValidRows(rows, schema);
+        } catch (error) {
+            expect((error as CodaValidationError).validationErrors).toEqual(['Row 0, column "Done": expected a boolean, got 1']);
+            expect((error as CodaValidationError).cellErrors).toEqual([
+                { rowIndex: 0, column: 'Done', value: 1, message: 'expected a boolean, got 1' }
+            ]);
+        }
+    });
+});
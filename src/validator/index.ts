@@ -1,3 +1,18 @@
+export * from "./rowSchema";
+
+import {CodaCellValidationError, CodaColumnSchema, CodaRowRequest, CodaTableSchema, CodaValidationError} from "../types";
+
+const NUMBER_TYPES = ['number', 'percent', 'currency', 'slider', 'scale', 'duration'];
+const DATE_TYPES = ['date', 'dateTime', 'time'];
+/** Column types accepting structured values, as written by `encodeRichValue` */
+const OBJECT_TYPES = ['currency', 'person', 'lookup', 'image', 'link'];
+const TIME = /^\d{1,2}:\d{2}(:\d{2})?( ?[AaPp][Mm])?$/;
+
+export interface SchemaValidationOptions {
+    /** Allowed values of select columns, by column ID */
+    selectOptions?: Record<string, string[]>;
+}
+
 export class DataValidator {
 
     static validateRowData(data: Record<string, any>): string[] {
@@ -14,4 +29,119 @@ export class DataValidator {
         });
         return errors;
     }
-}
\ No newline at end of file
+
+    /**
+     * Check rows about to be written against the schema of their table
+     * @returns One error per invalid cell, empty when the rows are valid
+     */
+    static validateRows(rows: CodaRowRequest[], schema: CodaTableSchema, options?: SchemaValidationOptions): CodaCellValidationError[] {
+        const columns = new Map<string, CodaColumnSchema>();
+        schema.columns.forEach(column => {
+            columns.set(column.name, column);
+            columns.set(column.id, column);
+        });
+
+        const errors: CodaCellValidationError[] = [];
+        rows.forEach((row, rowIndex) => {
+            row.cells.forEach(cell => {
+                const column = columns.get(cell.column);
+                const message = column
+                    ? DataValidator.validateCell(cell.value, column, options?.selectOptions?.[column.id])
+                    : `unknown column in table "${schema.tableName}"`;
+
+                if (message) {
+                    errors.push({ rowIndex, column: cell.column, value: cell.value, message });
+                }
+            });
+        });
+
+        return errors;
+    }
+
+    /**
+     * Same as `validateRows`, throwing when a cell is invalid
+     * @throws CodaValidationError with the invalid cells in `cellErrors`
+     */
+    static assertValidRows(rows: CodaRowRequest[], schema: CodaTableSchema, options?: SchemaValidationOptions): void {
+        const errors = DataValidator.validateRows(rows, schema, options);
+        if (errors.length > 0) {
+            throw new CodaValidationError(
+                errors.map(error => `Row ${error.rowIndex}, column "${error.column}": ${error.message}`),
+                errors
+            );
+        }
+    }
+
+    private static validateCell(value: unknown, column: CodaColumnSchema, selectOptions?: string[]): string | undefined {
+        if (column.calculated) {
+            return 'formula columns cannot be written';
+        }
+
+        if (Array.isArray(value)) {
+            if (!column.isArray) {
+                return `arrays are not allowed in a ${column.type} column`;
+            }
+            for (const item of value) {
+                const message = DataValidator.validateScalar(item, column, selectOptions);
+                if (message) {
+                    return message;
+                }
+            }
+            return undefined;
+        }
+
+        return DataValidator.validateScalar(value, column, selectOptions);
+    }
+
+    private static validateScalar(value: unknown, column: CodaColumnSchema, selectOptions?: string[]): string | undefined {
+        // Empty values clear the cell
+        if (value === null || value === undefined || value === '') {
+            return undefined;
+        }
+
+        if (value instanceof Date) {
+            if (!DATE_TYPES.includes(column.type)) {
+                return `dates are not allowed in a ${column.type} column`;
+            }
+            return isNaN(value.getTime()) ? 'invalid Date' : undefined;
+        }
+
+        if (typeof value === 'object') {
+            if (column.type === 'currency') {
+                const amount = (value as { amount?: unknown }).amount;
+                return typeof amount === 'number' ? undefined : 'currency values need a numeric amount';
+            }
+            return OBJECT_TYPES.includes(column.type) ? undefined : `objects are not allowed in a ${column.type} column`;
+        }
+
+        if (NUMBER_TYPES.includes(column.type)) {
+            const valid = typeof value === 'number'
+                ? Number.isFinite(value)
+                : typeof value === 'string' && value.trim() !== '' && !isNaN(Number(value));
+            // Durations can also be written as text, e.g. "2 hrs"
+            return valid || (column.type === 'duration' && typeof value === 'string') ? undefined : `expected a number, got ${JSON.stringify(value)}`;
+        }
+
+        if (DATE_TYPES.includes(column.type)) {
+            const valid = typeof value === 'string'
+                && (!isNaN(Date.parse(value)) || (column.type === 'time' && TIME.test(value.trim())));
+            return valid ? undefined : `expected a date, got ${JSON.stringify(value)}`;
+        }
+
+        if (column.type === 'checkbox') {
+            const valid = typeof value === 'boolean' || value === 'true' || value === 'false';
+            return valid ? undefined : `expected a boolean, got ${JSON.stringify(value)}`;
+        }
+
+        if (column.type === 'select') {
+            if (typeof value !== 'string') {
+                return `expected a select option, got ${JSON.stringify(value)}`;
+            }
+            if (selectOptions && !selectOptions.includes(value)) {
+                return `"${value}" is not an option of the column (${selectOptions.join(', ')})`;
+            }
+        }
+
+        return undefined;
+    }
+}
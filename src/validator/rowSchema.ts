@@ -0,0 +1,321 @@
+import {
+    CodaParsedRows,
+    CodaParseResult,
+    CodaRow,
+    CodaRowParseFailure,
+    CodaSchemaIssue,
+    CodaTypedRow,
+    CodaValidationError
+} from "../types";
+
+type Path = (string | number)[];
+
+/**
+ * Value produced by a schema
+ */
+export type CodaInfer<S extends RowSchema<any>> = S extends RowSchema<infer T> ? T : never;
+
+type Shape = Record<string, RowSchema<any>>;
+
+type OptionalKeys<S extends Shape> = { [K in keyof S]: undefined extends CodaInfer<S[K]> ? K : never }[keyof S];
+
+type Flatten<T> = { [K in keyof T]: T[K] };
+
+export type CodaObjectOutput<S extends Shape> = Flatten<
+    { [K in Exclude<keyof S, OptionalKeys<S>>]: CodaInfer<S[K]> } &
+    { [K in OptionalKeys<S>]?: CodaInfer<S[K]> }
+>;
+
+function describeValue(value: unknown): string {
+    if (value instanceof Date) {
+        return 'a Date';
+    }
+    return value === undefined ? 'undefined' : JSON.stringify(value);
+}
+
+/**
+ * Base of the declarative schemas built with `s`, parsing values read from a table.
+ * Parsing collects every issue instead of stopping at the first one.
+ */
+export abstract class RowSchema<T> {
+    /** Parse a value, pushing issues when it is invalid */
+    abstract parseValue(value: unknown, path: Path, issues: CodaSchemaIssue[]): T;
+
+    /**
+     * Parse a value, without throwing
+     */
+    safeParse(value: unknown): CodaParseResult<T> {
+        const issues: CodaSchemaIssue[] = [];
+        const data = this.parseValue(value, [], issues);
+        return issues.length > 0 ? { success: false, issues } : { success: true, data };
+    }
+
+    /**
+     * Parse a value
+     * @throws CodaValidationError with one message per issue
+     */
+    parse(value: unknown): T {
+        const result = this.safeParse(value);
+        if (!result.success) {
+            throw new CodaValidationError(result.issues.map(issue => `${issue.path.join('.') || '(value)'}: ${issue.message}`));
+        }
+        return result.data;
+    }
+
+    /**
+     * Accept missing values, as well as empty cells
+     */
+    optional(): OptionalSchema<T> {
+        return new OptionalSchema(this);
+    }
+}
+
+export class OptionalSchema<T> extends RowSchema<T | undefined> {
+    constructor(private readonly inner: RowSchema<T>) {
+        super();
+    }
+
+    parseValue(value: unknown, path: Path, issues: CodaSchemaIssue[]): T | undefined {
+        if (value === undefined || value === null) {
+            return undefined;
+        }
+        if (value === '') {
+            // Coda reads empty cells as "", which stays a valid string
+            const innerIssues: CodaSchemaIssue[] = [];
+            const parsed = this.inner.parseValue(value, path, innerIssues);
+            return innerIssues.length > 0 ? undefined : parsed;
+        }
+        return this.inner.parseValue(value, path, issues);
+    }
+}
+
+/**
+ * Schema checking a scalar value with a list of rules
+ */
+abstract class ScalarSchema<T> extends RowSchema<T> {
+    protected rules: { check: (value: T) => boolean; message: string }[] = [];
+
+    protected abstract cast(value: unknown): T | undefined;
+
+    protected abstract readonly expected: string;
+
+    protected with(check: (value: T) => boolean, message: string): this {
+        const copy = Object.create(Object.getPrototypeOf(this)) as this;
+        Object.assign(copy, this, { rules: [...this.rules, { check, message }] });
+        return copy;
+    }
+
+    parseValue(value: unknown, path: Path, issues: CodaSchemaIssue[]): T {
+        if (value === undefined || value === null) {
+            issues.push({ path, message: 'required' });
+            return value as unknown as T;
+        }
+
+        const cast = this.cast(value);
+        if (cast === undefined) {
+            issues.push({ path, message: value === '' ? 'required' : `expected ${this.expected}, got ${describeValue(value)}` });
+            return value as T;
+        }
+
+        this.rules
+            .filter(rule => !rule.check(cast))
+            .forEach(rule => issues.push({ path, message: rule.message }));
+        return cast;
+    }
+}
+
+export class StringSchema extends ScalarSchema<string> {
+    protected readonly expected = 'a string';
+
+    protected cast(value: unknown): string | undefined {
+        return typeof value === 'string' ? value : undefined;
+    }
+
+    min(length: number): StringSchema {
+        return this.with(value => value.length >= length, `expected at least ${length} characters`);
+    }
+
+    max(length: number): StringSchema {
+        return this.with(value => value.length <= length, `expected at most ${length} characters`);
+    }
+
+    nonEmpty(): StringSchema {
+        return this.with(value => value.trim() !== '', 'expected a non-empty string');
+    }
+
+    regex(pattern: RegExp): StringSchema {
+        return this.with(value => pattern.test(value), `expected a string matching ${pattern}`);
+    }
+}
+
+export class NumberSchema extends ScalarSchema<number> {
+    protected readonly expected = 'a number';
+
+    protected cast(value: unknown): number | undefined {
+        return typeof value === 'number' && Number.isFinite(value) ? value : undefined;
+    }
+
+    int(): NumberSchema {
+        return this.with(value => Number.isInteger(value), 'expected an integer');
+    }
+
+    min(minimum: number): NumberSchema {
+        return this.with(value => value >= minimum, `expected a number >= ${minimum}`);
+    }
+
+    max(maximum: number): NumberSchema {
+        return this.with(value => value <= maximum, `expected a number <= ${maximum}`);
+    }
+}
+
+export class BooleanSchema extends ScalarSchema<boolean> {
+    protected readonly expected = 'a boolean';
+
+    protected cast(value: unknown): boolean | undefined {
+        return typeof value === 'boolean' ? value : undefined;
+    }
+}
+
+/**
+ * Dates, read by Coda as ISO strings and parsed into `Date`
+ */
+export class DateSchema extends ScalarSchema<Date> {
+    protected readonly expected = 'a date';
+
+    protected cast(value: unknown): Date | undefined {
+        const date = value instanceof Date ? value : typeof value === 'string' && value.trim() !== '' ? new Date(value) : undefined;
+        return date && !isNaN(date.getTime()) ? date : undefined;
+    }
+
+    min(minimum: Date): DateSchema {
+        return this.with(value => value >= minimum, `expected a date after ${minimum.toISOString()}`);
+    }
+
+    max(maximum: Date): DateSchema {
+        return this.with(value => value <= maximum, `expected a date before ${maximum.toISOString()}`);
+    }
+}
+
+export class EnumSchema<T extends string> extends ScalarSchema<T> {
+    protected readonly expected: string;
+
+    constructor(readonly options: readonly T[]) {
+        super();
+        this.expected = `one of ${options.join(', ')}`;
+    }
+
+    protected cast(value: unknown): T | undefined {
+        return this.options.includes(value as T) ? value as T : undefined;
+    }
+}
+
+export class UnknownSchema extends RowSchema<unknown> {
+    parseValue(value: unknown): unknown {
+        return value;
+    }
+}
+
+export class ArraySchema<T> extends RowSchema<T[]> {
+    constructor(readonly element: RowSchema<T>) {
+        super();
+    }
+
+    parseValue(value: unknown, path: Path, issues: CodaSchemaIssue[]): T[] {
+        if (value === undefined || value === null) {
+            issues.push({ path, message: 'required' });
+            return [];
+        }
+        if (!Array.isArray(value)) {
+            issues.push({ path, message: `expected an array, got ${describeValue(value)}` });
+            return [];
+        }
+        return value.map((item, index) => this.element.parseValue(item, [...path, index], issues));
+    }
+}
+
+/**
+ * Objects keyed by column name or ID. Keys missing from the shape are dropped.
+ */
+export class ObjectSchema<S extends Shape> extends RowSchema<CodaObjectOutput<S>> {
+    constructor(readonly shape: S) {
+        super();
+    }
+
+    parseValue(value: unknown, path: Path, issues: CodaSchemaIssue[]): CodaObjectOutput<S> {
+        if (value === null || typeof value !== 'object' || Array.isArray(value) || value instanceof Date) {
+            issues.push({ path, message: `expected an object, got ${describeValue(value)}` });
+            return {} as CodaObjectOutput<S>;
+        }
+
+        const input = value as Record<string, unknown>;
+        const output: Record<string, unknown> = {};
+        Object.entries(this.shape).forEach(([key, schema]) => {
+            const parsed = schema.parseValue(input[key], [...path, key], issues);
+            if (parsed !== undefined) {
+                output[key] = parsed;
+            }
+        });
+
+        return output as CodaObjectOutput<S>;
+    }
+}
+
+/**
+ * Builders of declarative row schemas, e.g.
+ * `s.object({ Name: s.string(), Due: s.date().optional(), Points: s.number().int() })`
+ */
+export const s = {
+    string: () => new StringSchema(),
+    number: () => new NumberSchema(),
+    boolean: () => new BooleanSchema(),
+    date: () => new DateSchema(),
+    enum: <T extends string>(options: readonly T[]) => new EnumSchema<T>(options),
+    unknown: () => new UnknownSchema(),
+    array: <T>(element: RowSchema<T>) => new ArraySchema<T>(element),
+    object: <S extends Shape>(shape: S) => new ObjectSchema<S>(shape)
+};
+
+/**
+ * Parse the values of a row, returning the typed row or the reasons of the failure
+ */
+export function parseRow<T>(row: CodaRow, schema: RowSchema<T>): CodaParseResult<CodaTypedRow<T>> {
+    const result = schema.safeParse(row.values || {});
+    if (!result.success) {
+        return result;
+    }
+
+    return {
+        success: true,
+        data: {
+            id: row.id,
+            name: row.name,
+            index: row.index,
+            browserLink: row.browserLink,
+            createdAt: row.createdAt,
+            updatedAt: row.updatedAt,
+            values: result.data
+        }
+    };
+}
+
+export function toParseFailure(row: CodaRow, issues: CodaSchemaIssue[]): CodaRowParseFailure {
+    return { rowId: row.id, rowName: row.name, index: row.index, issues };
+}
+
+/**
+ * Parse the values of rows, splitting the valid rows from the failures
+ */
+export function parseRows<T>(rows: CodaRow[], schema: RowSchema<T>): CodaParsedRows<T> {
+    const parsed: CodaParsedRows<T> = { rows: [], failures: [] };
+
+    rows.forEach(row => {
+        const result = parseRow(row, schema);
+        if (result.success) {
+            parsed.rows.push(result.data);
+        } else {
+            parsed.failures.push(toParseFailure(row, result.issues));
+        }
+    });
+
+    return parsed;
+}
@@ -0,0 +1,108 @@
+import { decodeRichRow, decodeRichValue, encodeRichRow, encodeRichValue } from '../richValues';
+import { CodaColumn } from '../../types';
+
+const single = (type: string) => ({ type, isArray: false });
+const multiple = (type: string) => ({ type, isArray: true });
+
+describe('decodeRichValue', () => {
+    it('should decode schema.org values', () => {
+        expect(decodeRichValue({ '@context': 'http://schema.org/', '@type': 'MonetaryAmount', currency: 'EUR', amount: 12.5 }, single('currency')))
+            .toEqual({ amount: 12.5, currency: 'EUR' });
+        expect(decodeRichValue({ '@context': 'http://schema.org/', '@type': 'Person', name: 'Alice', email: 'alice@example.com' }, single('person')))
+            .toEqual({ name: 'Alice', email: 'alice@example.com' });
+        expect(decodeRichValue({
+            '@context': 'http://schema.org/',
+            '@type': 'StructuredValue',
+            additionalType: 'row',
+            name: 'Write docs',
+            url: 'https://coda.io/d/_dAbC#_tuGrid/r1',
+            tableId: 'grid-1',
+            rowId: 'i-1',
+            tableUrl: 'https://coda.io/d/_dAbC#_tuGrid'
+        }, single('lookup'))).toEqual({ tableId: 'grid-1', rowId: 'i-1', name: 'Write docs', url: 'https://coda.io/d/_dAbC#_tuGrid/r1' });
+    });
+
+    it('should decode arrays and empty values', () => {
+        const people = [
+            { '@type': 'Person', name: 'Alice', email: 'alice@example.com' },
+            { '@type': 'Person', name: 'Bob', email: 'bob@example.com' }
+        ];
+
+        expect(decodeRichValue(people, multiple('person'))).toEqual([
+            { name: 'Alice', email: 'alice@example.com' },
+            { name: 'Bob', email: 'bob@example.com' }
+        ]);
+        expect(decodeRichValue('', multiple('person'))).toEqual([]);
+        expect(decodeRichValue('', single('number'))).toBeNull();
+        expect(decodeRichValue('```**not bold**```', single('text'))).toBe('**not bold**');
+    });
+
+    it('should decode dates with their offset', () => {
+        const date = decodeRichValue('2024-03-10T09:30:00.000-08:00', single('dateTime')) as Date;
+
+        expect(date).toBeInstanceOf(Date);
+        expect(date.toISOString()).toBe('2024-03-10T17:30:00.000Z');
+    });
+
+    it('should read dates without offset in the doc timezone', () => {
+        const summer = decodeRichValue('2024-07-01T12:00:00', single('dateTime'), { timezone: 'America/New_York' }) as Date;
+        const winter = decodeRichValue('2024-01-15', single('date'), { timezone: 'America/New_York' }) as Date;
+        const utc = decodeRichValue('2024-01-15', single('date')) as Date;
+
+        expect(summer.toISOString()).toBe('2024-07-01T16:00:00.000Z');
+        expect(winter.toISOString()).toBe('2024-01-15T05:00:00.000Z');
+        expect(utc.toISOString()).toBe('2024-01-15T00:00:00.000Z');
+        expect(decodeRichValue('10:30:00', single('time'))).toBe('10:30:00');
+    });
+
+    it('should keep the calendar date of date columns without timezone', () => {
+        const date = decodeRichValue('2024-03-15T00:00:00.000+02:00', single('date')) as Date;
+
+        expect(date.toISOString()).toBe('2024-03-15T00:00:00.000Z');
+        expect(encodeRichValue(date, single('date'))).toBe('2024-03-15');
+        expect(encodeRichValue(decodeRichValue('1899-12-30T10:30:00.000+05:30', single('time')), single('time'))).toBe('10:30:00');
+    });
+});
+
+describe('encodeRichValue', () => {
+    it('should encode typed values as schema.org values', () => {
+        expect(encodeRichValue({ amount: 12.5, currency: 'EUR' }, single('currency')))
+            .toEqual({ '@context': 'http://schema.org/', '@type': 'MonetaryAmount', currency: 'EUR', amount: 12.5 });
+        expect(encodeRichValue([{ name: 'Alice', email: 'alice@example.com' }], multiple('person')))
+            .toEqual([{ '@context': 'http://schema.org/', '@type': 'Person', name: 'Alice', email: 'alice@example.com' }]);
+        expect(encodeRichValue({ tableId: 'grid-1', rowId: 'i-1', name: 'Write docs' }, single('lookup')))
+            .toMatchObject({ '@type': 'StructuredValue', additionalType: 'row', rowId: 'i-1' });
+        expect(encodeRichValue('plain text', single('text'))).toBe('plain text');
+    });
+
+    it('should encode dates according to the column type and timezone', () => {
+        const instant = new Date('2024-07-01T02:30:00.000Z');
+
+        expect(encodeRichValue(instant, single('dateTime'))).toBe('2024-07-01T02:30:00.000Z');
+        expect(encodeRichValue(instant, single('date'))).toBe('2024-07-01');
+        expect(encodeRichValue(instant, single('date'), { timezone: 'America/New_York' })).toBe('2024-06-30');
+        expect(encodeRichValue(instant, single('time'), { timezone: 'America/New_York' })).toBe('22:30:00');
+    });
+});
+
+describe('rich rows', () => {
+    const columns = [
+        { id: 'c-price', name: 'Price', format: single('currency') },
+        { id: 'c-due', name: 'Due', format: single('date') }
+    ] as CodaColumn[];
+
+    it('should decode and encode rows symmetrically', () => {
+        const raw = {
+            'c-price': { '@context': 'http://schema.org/', '@type': 'MonetaryAmount', currency: 'USD', amount: 3 },
+            Due: '2024-01-15',
+            Other: 'kept'
+        };
+
+        const decoded = decodeRichRow(raw, columns);
+
+        expect(decoded['c-price']).toEqual({ amount: 3, currency: 'USD' });
+        expect(decoded.Due).toEqual(new Date('2024-01-15T00:00:00.000Z'));
+        expect(decoded.Other).toBe('kept');
+        expect(encodeRichRow(decoded, columns)).toEqual(raw);
+    });
+});
@@ -0,0 +1,277 @@
+import {
+    CodaColumn,
+    CodaColumnFormat,
+    CodaCurrencyValue,
+    CodaDecodedScalar,
+    CodaDecodedValue,
+    CodaImageValue,
+    CodaPerson,
+    CodaRichImage,
+    CodaRichMonetaryAmount,
+    CodaRichRowReference,
+    CodaRichValueOptions,
+    CodaRichWebPage,
+    CodaPersonValue,
+    CodaRowReference,
+    CodaWebPageValue
+} from "../types";
+
+const SCHEMA_CONTEXT = 'http://schema.org/';
+const NAIVE_DATE = /^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2})(?::(\d{2})(?:\.(\d{1,3})\d*)?)?)?$/;
+const ZONED_DATE = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:Z|[+-]\d{2}:?\d{2})$/;
+const OFFSET = /(?:Z|[+-]\d{2}:?\d{2})$/;
+const DATE_TYPES = ['date', 'dateTime', 'time'];
+
+type Format = Pick<CodaColumnFormat, 'type' | 'isArray'>;
+
+/**
+ * Wall-clock parts of an instant in a timezone
+ */
+function zonedParts(time: number, timezone: string): Record<string, number> {
+    const parts = new Intl.DateTimeFormat('en-US', {
+        timeZone: timezone,
+        hourCycle: 'h23',
+        year: 'numeric',
+        month: '2-digit',
+        day: '2-digit',
+        hour: '2-digit',
+        minute: '2-digit',
+        second: '2-digit'
+    }).formatToParts(new Date(time));
+
+    return Object.fromEntries(parts
+        .filter(part => part.type !== 'literal')
+        .map(part => [part.type, Number(part.value)]));
+}
+
+/**
+ * Offset of a timezone at an instant, in milliseconds
+ */
+function timezoneOffset(time: number, timezone: string): number {
+    const parts = zonedParts(time, timezone);
+    const wallClock = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+    return wallClock - Math.floor(time / 1000) * 1000;
+}
+
+/**
+ * Instant of a wall-clock time in a timezone
+ */
+function fromWallClock(wallClock: number, timezone?: string): Date {
+    if (!timezone || timezone === 'UTC') {
+        return new Date(wallClock);
+    }
+    // The second pass fixes the offset around DST changes
+    const guess = wallClock - timezoneOffset(wallClock, timezone);
+    return new Date(wallClock - timezoneOffset(guess, timezone));
+}
+
+function pad(value: number, length = 2): string {
+    return String(value).padStart(length, '0');
+}
+
+function isRich(value: unknown, type: string): boolean {
+    return value !== null && typeof value === 'object' && (value as { '@type'?: string })['@type'] === type;
+}
+
+/**
+ * Decode a date sent by Coda, dates without offset being read in the doc timezone.
+ * Without timezone, `date` and `time` values keep the wall clock of their offset, read as UTC,
+ * so that `encodeRichValue` writes back the same calendar date. Time-only values are kept as strings.
+ */
+function decodeDate(value: unknown, type: string, options?: CodaRichValueOptions): Date | string | null {
+    if (value === '' || value === null || value === undefined) {
+        return null;
+    }
+    if (typeof value !== 'string') {
+        return value as string;
+    }
+
+    const zoned = ZONED_DATE.test(value);
+    if (zoned && (type === 'dateTime' || options?.timezone)) {
+        return new Date(value);
+    }
+
+    const match = NAIVE_DATE.exec(zoned ? value.replace(OFFSET, '') : value);
+    if (!match) {
+        return value;
+    }
+
+    const [, year, month, day, hour = '0', minute = '0', second = '0', millis = '0'] = match;
+    return fromWallClock(
+        Date.UTC(+year, +month - 1, +day, +hour, +minute, +second, +millis.padEnd(3, '0')),
+        options?.timezone
+    );
+}
+
+function decodeScalar(value: unknown, format: Format, options?: CodaRichValueOptions): CodaDecodedScalar {
+    if (isRich(value, 'MonetaryAmount')) {
+        const { amount, currency } = value as CodaRichMonetaryAmount;
+        return { amount, currency } as CodaCurrencyValue;
+    }
+    if (isRich(value, 'Person')) {
+        const { name, email } = value as CodaPersonValue;
+        return { name, email } as CodaPerson;
+    }
+    if (isRich(value, 'StructuredValue') && (value as CodaRichRowReference).additionalType === 'row') {
+        const { tableId, rowId, name, url } = value as CodaRichRowReference;
+        return { tableId, rowId, name, url } as CodaRowReference;
+    }
+    if (isRich(value, 'ImageObject')) {
+        const { url, name, width, height } = value as CodaRichImage;
+        return { url, name, width, height } as CodaImageValue;
+    }
+    if (isRich(value, 'WebPage')) {
+        const { url, name } = value as CodaRichWebPage;
+        return { url, name } as CodaWebPageValue;
+    }
+
+    if (DATE_TYPES.includes(format.type)) {
+        return decodeDate(value, format.type, options);
+    }
+
+    if (typeof value === 'string') {
+        if (format.type === 'text' || format.type === 'canvas') {
+            // Text is wrapped in a code block when it could be read as markdown
+            const code = /^```([\s\S]*)```$/.exec(value);
+            return code ? code[1] : value;
+        }
+        if (value === '') {
+            return null;
+        }
+        if (['number', 'percent', 'slider', 'scale'].includes(format.type) && !isNaN(Number(value))) {
+            return Number(value);
+        }
+    }
+
+    return value as CodaDecodedScalar;
+}
+
+/**
+ * Decode a value read with `valueFormat: 'rich'` into a typed JS value, according to the column format
+ */
+export function decodeRichValue(value: unknown, format: Format, options?: CodaRichValueOptions): CodaDecodedValue {
+    if (Array.isArray(value)) {
+        return value.map(item => decodeScalar(item, format, options));
+    }
+
+    const decoded = decodeScalar(value, format, options);
+    if (format.isArray) {
+        return decoded === null ? [] : [decoded];
+    }
+    return decoded;
+}
+
+function encodeDate(value: Date, type: string, options?: CodaRichValueOptions): string {
+    if (type === 'dateTime') {
+        return value.toISOString();
+    }
+
+    const parts = options?.timezone
+        ? zonedParts(value.getTime(), options.timezone)
+        : {
+            year: value.getUTCFullYear(),
+            month: value.getUTCMonth() + 1,
+            day: value.getUTCDate(),
+            hour: value.getUTCHours(),
+            minute: value.getUTCMinutes(),
+            second: value.getUTCSeconds()
+        };
+
+    return type === 'time'
+        ? `${pad(parts.hour)}:${pad(parts.minute)}:${pad(parts.second)}`
+        : `${pad(parts.year, 4)}-${pad(parts.month)}-${pad(parts.day)}`;
+}
+
+function encodeScalar(value: unknown, format: Format, options?: CodaRichValueOptions): unknown {
+    if (value instanceof Date) {
+        return encodeDate(value, DATE_TYPES.includes(format.type) ? format.type : 'dateTime', options);
+    }
+    if (value === null || typeof value !== 'object') {
+        return value;
+    }
+
+    const object = value as Record<string, any>;
+    if (object['@type']) {
+        return value;
+    }
+
+    switch (format.type) {
+        case 'currency':
+            return { '@context': SCHEMA_CONTEXT, '@type': 'MonetaryAmount', currency: object.currency, amount: object.amount };
+        case 'person':
+            return { '@context': SCHEMA_CONTEXT, '@type': 'Person', name: object.name, email: object.email };
+        case 'lookup':
+            return {
+                '@context': SCHEMA_CONTEXT,
+                '@type': 'StructuredValue',
+                additionalType: 'row',
+                name: object.name,
+                tableId: object.tableId,
+                rowId: object.rowId
+            };
+        case 'image':
+            return { '@context': SCHEMA_CONTEXT, '@type': 'ImageObject', url: object.url, name: object.name };
+        case 'link':
+            return { '@context': SCHEMA_CONTEXT, '@type': 'WebPage', url: object.url, name: object.name };
+        default:
+            return value;
+    }
+}
+
+/**
+ * Encode a typed JS value, as returned by `decodeRichValue`, into a cell value accepted by Coda
+ */
+export function encodeRichValue(value: unknown, format: Format, options?: CodaRichValueOptions): unknown {
+    if (Array.isArray(value)) {
+        return value.map(item => encodeScalar(item, format, options));
+    }
+    return encodeScalar(value, format, options);
+}
+
+function columnsByKey(columns: CodaColumn[]): Map<string, CodaColumn> {
+    const byKey = new Map<string, CodaColumn>();
+    columns.forEach(column => {
+        byKey.set(column.id, column);
+        byKey.set(column.name, column);
+    });
+    return byKey;
+}
+
+/**
+ * Decode the values of a row read with `valueFormat: 'rich'`, keyed by column ID or name.
+ * Values of unknown columns are kept as they are.
+ */
+export function decodeRichRow(
+    values: Record<string, unknown>,
+    columns: CodaColumn[],
+    options?: CodaRichValueOptions
+): Record<string, CodaDecodedValue> {
+    const byKey = columnsByKey(columns);
+    const decoded: Record<string, CodaDecodedValue> = {};
+
+    Object.entries(values).forEach(([key, value]) => {
+        const column = byKey.get(key);
+        decoded[key] = column?.format ? decodeRichValue(value, column.format, options) : value as CodaDecodedValue;
+    });
+
+    return decoded;
+}
+
+/**
+ * Encode typed values keyed by column ID or name before a write
+ */
+export function encodeRichRow(
+    values: Record<string, unknown>,
+    columns: CodaColumn[],
+    options?: CodaRichValueOptions
+): Record<string, unknown> {
+    const byKey = columnsByKey(columns);
+    const encoded: Record<string, unknown> = {};
+
+    Object.entries(values).forEach(([key, value]) => {
+        const column = byKey.get(key);
+        encoded[key] = encodeRichValue(value, column?.format ?? { type: 'text', isArray: false }, options);
+    });
+
+    return encoded;
+}
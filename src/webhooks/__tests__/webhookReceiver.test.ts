@@ -0,0 +1,111 @@
+import { request } from 'http';
+import { createWebhookReceiver, CodaWebhookDeadLetter, CodaWebhookReceiver, CodaWebhookReceiverOptions } from '../index';
+import { Logger, LogLevel } from '../../utils/logger';
+
+interface Events extends Record<string, unknown> {
+    'row.created': { type: 'row.created'; rowId: string };
+}
+
+function post(port: number, path: string, body: string, headers: Record<string, string> = {}): Promise<{ status: number; body: any }> {
+    return new Promise((resolve, reject) => {
+        const req = request({ host: '127.0.0.1', port, path, method: 'POST', headers: { 'Content-Type': 'application/json', ...headers } }, res => {
+            const chunks: Buffer[] = [];
+            res.on('data', chunk => chunks.push(chunk));
+            res.on('end', () => resolve({ status: res.statusCode || 0, body: JSON.parse(Buffer.concat(chunks).toString() || '{}') }));
+        });
+        req.on('error', reject);
+        req.end(body);
+    });
+}
+
+describe('createWebhookReceiver', () => {
+    const secret = 'shared-secret';
+    const auth = { 'x-coda-webhook-secret': secret };
+    let receiver: CodaWebhookReceiver;
+    let port: number;
+
+    const start = async (options: Partial<CodaWebhookReceiverOptions<Events>> = {}) => {
+        receiver = createWebhookReceiver<Events>({
+            path: '/coda/webhooks',
+            secret,
+            handlers: {},
+            retryDelay: 1,
+            logger: new Logger(LogLevel.NONE),
+            ...options
+        });
+        port = (await receiver.listen(0, '127.0.0.1')).port;
+    };
+
+    afterEach(async () => {
+        await receiver?.close();
+    });
+
+    it('should dispatch typed events to their handler', async () => {
+        const handler = jest.fn();
+        await start({ handlers: { 'row.created': handler } });
+
+        const response = await post(port, '/coda/webhooks', JSON.stringify({ type: 'row.created', rowId: 'i-1' }), auth);
+        await receiver.idle();
+
+        expect(response.status).toBe(202);
+        expect(handler).toHaveBeenCalledWith(expect.objectContaining({
+            type: 'row.created',
+            payload: { type: 'row.created', rowId: 'i-1' }
+        }));
+    });
+
+    it('should accept the secret as a bearer token and fall back to the wildcard handler', async () => {
+        const fallback = jest.fn();
+        await start({ handlers: { '*': fallback }, secretHeader: 'Authorization' });
+
+        const response = await post(port, '/coda/webhooks', JSON.stringify({ type: 'other' }), { Authorization: `Bearer ${secret}` });
+        await receiver.idle();
+
+        expect(response.status).toBe(202);
+        expect(fallback).toHaveBeenCalledWith(expect.objectContaining({ type: 'other' }));
+    });
+
+    it('should reject invalid requests', async () => {
+        await start();
+
+        expect((await post(port, '/coda/webhooks', '{}', { 'x-coda-webhook-secret': 'wrong' })).status).toBe(401);
+        expect((await post(port, '/coda/webhooks', '{}')).status).toBe(401);
+        expect((await post(port, '/elsewhere', '{}', auth)).status).toBe(404);
+        expect((await post(port, '/coda/webhooks', 'not json', auth)).status).toBe(400);
+        expect((await post(port, '/coda/webhooks', JSON.stringify({ rowId: 'i-1' }), auth)).status).toBe(400);
+    });
+
+    it('should reject oversized bodies', async () => {
+        await start({ maxBodySize: 16 });
+
+        const response = await post(port, '/coda/webhooks', JSON.stringify({ type: 'row.created', rowId: 'x'.repeat(64) }), auth);
+
+        expect(response.status).toBe(413);
+    });
+
+    it('should retry a failing handler then send the event to the dead letter', async () => {
+        const error = new Error('downstream unavailable');
+        const handler = jest.fn().mockRejectedValue(error);
+        const deadLetters: CodaWebhookDeadLetter[] = [];
+        await start({ handlers: { 'row.created': handler }, retries: 2, onDeadLetter: deadLetter => { deadLetters.push(deadLetter); } });
+
+        await post(port, '/coda/webhooks', JSON.stringify({ type: 'row.created', rowId: 'i-1' }), auth);
+        await receiver.idle();
+
+        expect(handler).toHaveBeenCalledTimes(3);
+        expect(deadLetters).toHaveLength(1);
+        expect(deadLetters[0]).toMatchObject({ error, attempts: 3, event: { type: 'row.created' } });
+    });
+
+    it('should not send the event to the dead letter when a retry succeeds', async () => {
+        const handler = jest.fn().mockRejectedValueOnce(new Error('flaky')).mockResolvedValueOnce(undefined);
+        const onDeadLetter = jest.fn();
+        await start({ handlers: { 'row.created': handler }, onDeadLetter });
+
+        await post(port, '/coda/webhooks', JSON.stringify({ type: 'row.created', rowId: 'i-1' }), auth);
+        await receiver.idle();
+
+        expect(handler).toHaveBeenCalledTimes(2);
+        expect(onDeadLetter).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,231 @@
+import {createHash, timingSafeEqual} from 'crypto';
+import {createServer, IncomingHttpHeaders, IncomingMessage, Server, ServerResponse} from 'http';
+import {AddressInfo} from 'net';
+import {Logger, LogLevel} from "../utils/logger";
+import {sleep} from "../utils/abort";
+
+/**
+ * Payload sent by the "Send webhook" step of a Coda automation.
+ * The event type is read from a field of the JSON body, `type` by default.
+ */
+export interface CodaWebhookEvent<K extends string = string, P = unknown> {
+    type: K;
+    payload: P;
+    headers: IncomingHttpHeaders;
+    receivedAt: Date;
+}
+
+export type CodaWebhookHandler<K extends string = string, P = unknown> = (event: CodaWebhookEvent<K, P>) => void | Promise<void>;
+
+/**
+ * One handler per event type, `'*'` receiving the events without a dedicated handler
+ */
+export type CodaWebhookHandlers<E extends Record<string, unknown>> = {
+    [K in keyof E & string]?: CodaWebhookHandler<K, E[K]>;
+} & {
+    '*'?: CodaWebhookHandler;
+};
+
+export interface CodaWebhookDeadLetter {
+    event: CodaWebhookEvent;
+    error: unknown;
+    attempts: number;
+}
+
+export interface CodaWebhookReceiverOptions<E extends Record<string, unknown>> {
+    /** Path receiving the webhooks, e.g. `/coda/webhooks` */
+    path: string;
+    /** Shared secret configured in the automation headers */
+    secret: string;
+    handlers: CodaWebhookHandlers<E>;
+    /** Header carrying the secret, as is or as `Bearer <secret>`. Default `x-coda-webhook-secret` */
+    secretHeader?: string;
+    /** Body field holding the event type. Default `type` */
+    eventTypeField?: string;
+    /** Retries of a failed handler before the dead letter. Default 3 */
+    retries?: number;
+    /** Base delay between retries in milliseconds, doubled on each retry. Default 1000 */
+    retryDelay?: number;
+    /** Called with the event once its handler has failed every retry */
+    onDeadLetter?: (deadLetter: CodaWebhookDeadLetter) => void | Promise<void>;
+    /** Maximum body size in bytes. Default 1 MB */
+    maxBodySize?: number;
+    logger?: Logger;
+}
+
+export interface CodaWebhookReceiver {
+    server: Server;
+    /** Request listener, to mount the receiver on an existing server */
+    handle(req: IncomingMessage, res: ServerResponse): void;
+    /** Start listening, on a random port by default */
+    listen(port?: number, host?: string): Promise<AddressInfo>;
+    /** Resolve once every received event has been handled */
+    idle(): Promise<void>;
+    /** Stop accepting requests and wait for the pending events */
+    close(): Promise<void>;
+}
+
+class WebhookHttpError extends Error {
+    constructor(public readonly statusCode: number, message: string) {
+        super(message);
+    }
+}
+
+function digest(value: string): Buffer {
+    return createHash('sha256').update(value).digest();
+}
+
+/**
+ * Create an HTTP server receiving the webhooks of Coda automations.
+ * Each valid request is acknowledged with a 202 before its handler runs, so that slow handlers
+ * and their retries never make Coda time out.
+ */
+export function createWebhookReceiver<E extends Record<string, unknown> = Record<string, unknown>>(
+    options: CodaWebhookReceiverOptions<E>
+): CodaWebhookReceiver {
+    const path = options.path.replace(/\/+$/, '') || '/';
+    const secretHeader = (options.secretHeader || 'x-coda-webhook-secret').toLowerCase();
+    const eventTypeField = options.eventTypeField || 'type';
+    const retries = options.retries ?? 3;
+    const retryDelay = options.retryDelay ?? 1000;
+    const maxBodySize = options.maxBodySize ?? 1024 * 1024;
+    const logger = options.logger || new Logger(LogLevel.ERROR);
+    const expectedSecret = digest(options.secret);
+    const pending = new Set<Promise<void>>();
+
+    const isAuthorized = (headers: IncomingHttpHeaders): boolean => {
+        const header = headers[secretHeader];
+        const value = (Array.isArray(header) ? header[0] : header)?.replace(/^Bearer\s+/i, '');
+        return value !== undefined && timingSafeEqual(digest(value), expectedSecret);
+    };
+
+    const readBody = (req: IncomingMessage): Promise<string> => new Promise((resolve, reject) => {
+        const chunks: Buffer[] = [];
+        let size = 0;
+
+        req.on('data', (chunk: Buffer) => {
+            size += chunk.length;
+            // Keep draining an oversized body so that the 413 reaches the sender
+            if (size <= maxBodySize) {
+                chunks.push(chunk);
+            }
+        });
+        req.on('end', () => size > maxBodySize
+            ? reject(new WebhookHttpError(413, 'Payload too large'))
+            : resolve(Buffer.concat(chunks).toString('utf8')));
+        req.on('error', reject);
+    });
+
+    const parseEvent = (body: string, headers: IncomingHttpHeaders): CodaWebhookEvent => {
+        let payload: any;
+        try {
+            payload = JSON.parse(body);
+        } catch {
+            throw new WebhookHttpError(400, 'Invalid JSON body');
+        }
+
+        const type = payload !== null && typeof payload === 'object' ? payload[eventTypeField] : undefined;
+        if (typeof type !== 'string' || type === '') {
+            throw new WebhookHttpError(400, `Missing "${eventTypeField}" field`);
+        }
+
+        return { type, payload, headers, receivedAt: new Date() };
+    };
+
+    const dispatch = async (event: CodaWebhookEvent): Promise<void> => {
+        const handlers = options.handlers as Record<string, CodaWebhookHandler | undefined>;
+        const handler = handlers[event.type] || handlers['*'];
+        if (!handler) {
+            logger.warn(`No webhook handler for event "${event.type}"`);
+            return;
+        }
+
+        for (let attempt = 1; ; attempt++) {
+            try {
+                await handler(event);
+                return;
+            } catch (error) {
+                if (attempt > retries) {
+                    logger.error(`Webhook handler for "${event.type}" failed after ${attempt} attempts`, error);
+                    try {
+                        await options.onDeadLetter?.({ event, error, attempts: attempt });
+                    } catch (deadLetterError) {
+                        logger.error('Webhook dead letter callback failed', deadLetterError);
+                    }
+                    return;
+                }
+
+                const delay = retryDelay * Math.pow(2, attempt - 1);
+                logger.warn(`Webhook handler for "${event.type}" failed, retry ${attempt}/${retries} in ${delay}ms`);
+                await sleep(delay);
+            }
+        }
+    };
+
+    const track = (task: Promise<void>): void => {
+        pending.add(task);
+        task.finally(() => pending.delete(task));
+    };
+
+    const reply = (res: ServerResponse, statusCode: number, body: Record<string, unknown>): void => {
+        res.writeHead(statusCode, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(body));
+    };
+
+    const processRequest = async (req: IncomingMessage, res: ServerResponse): Promise<void> => {
+        const requestPath = new URL(req.url || '/', 'http://localhost').pathname.replace(/\/+$/, '') || '/';
+        if (requestPath !== path) {
+            throw new WebhookHttpError(404, 'Not found');
+        }
+        if (req.method !== 'POST') {
+            res.setHeader('Allow', 'POST');
+            throw new WebhookHttpError(405, 'Method not allowed');
+        }
+        if (!isAuthorized(req.headers)) {
+            throw new WebhookHttpError(401, 'Invalid webhook secret');
+        }
+
+        const event = parseEvent(await readBody(req), req.headers);
+        track(dispatch(event));
+        reply(res, 202, { received: true });
+    };
+
+    const handle = (req: IncomingMessage, res: ServerResponse): void => {
+        processRequest(req, res).catch(error => {
+            const statusCode = error instanceof WebhookHttpError ? error.statusCode : 500;
+            if (statusCode === 500) {
+                logger.error('Webhook request failed', error);
+            }
+            if (!res.headersSent) {
+                reply(res, statusCode, { error: error instanceof WebhookHttpError ? error.message : 'Internal error' });
+            }
+        });
+    };
+
+    const idle = async (): Promise<void> => {
+        while (pending.size > 0) {
+            await Promise.all(pending);
+        }
+    };
+
+    const server = createServer(handle);
+
+    return {
+        server,
+        handle,
+        idle,
+        listen: (port = 0, host?: string) => new Promise((resolve, reject) => {
+            server.once('error', reject);
+            server.listen(port, host, () => {
+                server.off('error', reject);
+                resolve(server.address() as AddressInfo);
+            });
+        }),
+        close: async () => {
+            if (server.listening) {
+                await new Promise<void>((resolve, reject) => server.close(error => error ? reject(error) : resolve()));
+            }
+            await idle();
+        }
+    };
+}